@@ -0,0 +1,67 @@
+import {
+  Html,
+  Head,
+  Font,
+  Preview,
+  Heading,
+  Row,
+  Section,
+  Text,
+} from '@react-email/components';
+
+interface PasswordResetEmailProps {
+  username: string;
+  otp: string;
+  expiresInMinutes: number;
+}
+
+export default function PasswordResetEmail({
+  username,
+  otp,
+  expiresInMinutes,
+}: PasswordResetEmailProps) {
+  return (
+    <Html lang="en" dir="ltr">
+      <Head>
+        <title>Password Reset Code</title>
+        <Font
+          fontFamily="Roboto"
+          fallbackFontFamily="Verdana"
+          webFont={{
+            url: 'https://fonts.gstatic.com/s/roboto/v27/KFOmCnqEu92Fr1Mu4mxKKTU1Kg.woff2',
+            format: 'woff2',
+          }}
+          fontWeight={400}
+          fontStyle="normal"
+        />
+      </Head>
+      <Preview>Here&apos;s your password reset code: {otp}</Preview>
+      <Section>
+        <Row>
+          <Heading as="h2">Hello {username},</Heading>
+        </Row>
+        <Row>
+          <Text>
+            We received a request to reset your password. Use the following
+            code to choose a new one:
+          </Text>
+        </Row>
+        <Row>
+          <Text>{otp}</Text>
+        </Row>
+        <Row>
+          <Text>
+            This code can only be used once and expires in {expiresInMinutes}{' '}
+            minutes.
+          </Text>
+        </Row>
+        <Row>
+          <Text>
+            If you did not request a password reset, please ignore this email.
+            Your password will not change.
+          </Text>
+        </Row>
+      </Section>
+    </Html>
+  );
+}
@@ -0,0 +1,79 @@
+/**
+ * One-off migration: moves messages out of the embedded `users.messages` array
+ * into the standalone `messages` collection used by `src/model/Message.ts`.
+ *
+ * Usage: MONGODB_URI=... npm run migrate:messages
+ *
+ * - Message `_id`s are preserved, so links to existing messages keep working.
+ * - Safe to re-run: already-copied messages are skipped (duplicate `_id`),
+ *   and the embedded array is only removed after its messages were copied.
+ */
+const mongoose = require('mongoose');
+
+// Duplicate key error code returned by MongoDB
+const DUPLICATE_KEY = 11000;
+
+async function migrate() {
+  if (!process.env.MONGODB_URI) {
+    throw new Error('MONGODB_URI is not set');
+  }
+
+  await mongoose.connect(process.env.MONGODB_URI);
+  const db = mongoose.connection.db;
+  const users = db.collection('users');
+  const messages = db.collection('messages');
+
+  // Same index as MessageSchema, so the dashboard query is fast right after the move
+  await messages.createIndex({ recipient: 1, status: 1, createdAt: -1, _id: -1 });
+
+  const cursor = users.find(
+    { 'messages.0': { $exists: true } },
+    { projection: { _id: 1, messages: 1 } }
+  );
+
+  let migratedUsers = 0;
+  let copiedMessages = 0;
+
+  for await (const user of cursor) {
+    const docs = user.messages.map((message) => ({
+      _id: message._id,
+      recipient: user._id,
+      content: message.content,
+      status: 'accepted',
+      createdAt: message.createdAt || new Date(),
+    }));
+
+    try {
+      const result = await messages.insertMany(docs, { ordered: false });
+      copiedMessages += result.insertedCount;
+    } catch (error) {
+      // Re-runs hit messages that were already copied; anything else is fatal
+      const writeErrors = error.writeErrors || [];
+      if (!writeErrors.every((e) => e.code === DUPLICATE_KEY)) {
+        throw error;
+      }
+      copiedMessages += error.result ? error.result.insertedCount : 0;
+    }
+
+    await users.updateOne({ _id: user._id }, { $unset: { messages: '' } });
+    migratedUsers += 1;
+  }
+
+  // Users that never received a message still carry an empty array
+  await users.updateMany(
+    { messages: { $size: 0 } },
+    { $unset: { messages: '' } }
+  );
+
+  console.log(
+    `Migrated ${copiedMessages} messages from ${migratedUsers} users`
+  );
+}
+
+migrate()
+  .then(() => mongoose.disconnect())
+  .catch(async (error) => {
+    console.error('Message migration failed:', error);
+    await mongoose.disconnect();
+    process.exit(1);
+  });
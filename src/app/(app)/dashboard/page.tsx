@@ -1,25 +1,140 @@
 'use client';
 
-import { MessageCard } from '@/components/MessageCard';
+import { MessageCard, MessageFlags } from '@/components/MessageCard';
+import {
+  FeedbackLinks,
+  FeedbackLinkWithCount,
+} from '@/components/FeedbackLinks';
+import { AcceptScheduleSettings } from '@/components/AcceptScheduleSettings';
+import { LinkQrCode } from '@/components/LinkQrCode';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
+import { Input } from '@/components/ui/input';
 import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/components/ui/use-toast';
-import { Message } from '@/model/User';
+import { Message, MessageView } from '@/model/Message';
+import { notifyUnreadCountChanged } from '@/lib/unreadCount';
+import { openInboxStream } from '@/lib/inboxStream';
+import {
+  AcceptSchedule,
+  formatScheduleDate,
+  getScheduleState,
+  hasAcceptSchedule,
+} from '@/lib/acceptSchedule';
+import {
+  MESSAGE_REACTION_EMOJI,
+  MESSAGE_REACTIONS,
+  MessageReaction,
+} from '@/lib/reactions';
+import { FlaggedMessageAction } from '@/lib/moderation/types';
+import {
+  MESSAGE_CATEGORIES,
+  MESSAGE_CATEGORY_LABELS,
+  MessageCategory,
+} from '@/lib/messageCategories';
 import { ApiResponse } from '@/types/ApiResponse';
 import { zodResolver } from '@hookform/resolvers/zod';
 import axios, { AxiosError } from 'axios';
-import { Loader2, RefreshCcw } from 'lucide-react';
+import {
+  BadgeCheck,
+  Download,
+  FileText,
+  Loader2,
+  RefreshCcw,
+  Search,
+} from 'lucide-react';
+import dayjs from 'dayjs';
 import { User } from 'next-auth';
 import { useSession } from 'next-auth/react';
-import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { useDebounce } from 'usehooks-ts';
 import { useForm } from 'react-hook-form';
 import { AcceptMessageSchema } from '@/schemas/acceptMessageSchema';
+import { MAX_BULK_MESSAGE_IDS } from '@/schemas/messageFlagsSchema';
+import type { BatchMessageAction } from '@/schemas/batchMessagesSchema';
+
+// Settings saved through POST /api/accept-messages, one control at a time
+type MessageSettings = {
+  acceptMessages: boolean;
+  onlyVerifiedSenders: boolean;
+  requireApproval: boolean;
+  flaggedMessageAction: FlaggedMessageAction;
+  acceptedCategories: MessageCategory[];
+  acceptSchedule: AcceptSchedule;
+};
 
 function UserDashboard() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isSwitchLoading, setIsSwitchLoading] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  // Inbox shows accepted messages that are not archived; Starred and Archive
+  // narrow those down; "Pending" shows messages awaiting approval and those
+  // held back by moderation; Trash shows deleted messages until they are purged
+  const [view, setView] = useState<MessageView>('accepted');
+  // Filter chip selection; undefined shows every category
+  const [category, setCategory] = useState<MessageCategory | undefined>();
+  const [categoryCounts, setCategoryCounts] = useState<
+    Partial<Record<MessageCategory, number>>
+  >({});
+  const [reactionCounts, setReactionCounts] = useState<
+    Partial<Record<MessageReaction, number>>
+  >({});
+  // Search-as-you-type: the API is only called once typing pauses
+  const [search, setSearch] = useState('');
+  const debouncedSearch = useDebounce(search.trim(), 300);
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  // Narrows the list to one named feedback link; '' shows every link
+  const [link, setLink] = useState('');
+  const [feedbackLinks, setFeedbackLinks] = useState<FeedbackLinkWithCount[]>(
+    []
+  );
+
+  // Filters shared by the first page and every "load more" request
+  const filterParams = useMemo(
+    () => ({
+      status: view,
+      category,
+      link: link || undefined,
+      q: debouncedSearch || undefined,
+      after: dateFrom ? dayjs(dateFrom).startOf('day').toISOString() : undefined,
+      before: dateTo ? dayjs(dateTo).endOf('day').toISOString() : undefined,
+    }),
+    [view, category, link, debouncedSearch, dateFrom, dateTo]
+  );
+  // Bulk selection: individual cards, or everything matching the filters
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [selectAllMatching, setSelectAllMatching] = useState(false);
+  const [isBatchLoading, setIsBatchLoading] = useState(false);
+
+  // A selection never carries over to a different tab or filter
+  useEffect(() => {
+    setSelectedIds(new Set());
+    setSelectAllMatching(false);
+  }, [filterParams]);
+
+  // Exports and the printable report use the filters currently applied
+  const exportQuery = useMemo(() => {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filterParams)) {
+      if (value) params.set(key, value);
+    }
+    return params.toString();
+  }, [filterParams]);
+
+  const messagesEndpoint = debouncedSearch
+    ? '/api/search-messages'
+    : '/api/get-messages';
 
   const { toast } = useToast();
 
@@ -27,6 +142,180 @@ function UserDashboard() {
     setMessages(messages.filter((message) => message._id !== messageId));
   };
 
+  // Keep the message and the reaction stats in step without a refetch
+  const handleReactionChange = (
+    messageId: string,
+    reaction: MessageReaction | null
+  ) => {
+    const previous = messages.find((m) => m._id === messageId)?.reaction;
+    setMessages((current) =>
+      current.map((message) =>
+        message._id === messageId
+          ? ({ ...message, reaction: reaction ?? undefined } as Message)
+          : message
+      )
+    );
+    setReactionCounts((counts) => {
+      const next = { ...counts };
+      if (previous) next[previous] = Math.max((next[previous] ?? 1) - 1, 0);
+      if (reaction) next[reaction] = (next[reaction] ?? 0) + 1;
+      return next;
+    });
+  };
+
+  // Restoring from Trash removes the card there; an "Undo" from another tab
+  // puts it back in date order
+  const handleRestoreMessage = (restored: Message) => {
+    setMessages((current) => {
+      const others = current.filter((message) => message._id !== restored._id);
+      if (view === 'trash') return others;
+      return [...others, { ...restored, deletedAt: undefined } as Message].sort(
+        (a, b) =>
+          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+      );
+    });
+  };
+
+  // Apply a flag change locally, dropping the message if it no longer
+  // belongs in the current tab (e.g. archived from the inbox)
+  const handleFlagsChange = (messageId: string, flags: MessageFlags) => {
+    setMessages((current) =>
+      current.flatMap((message) => {
+        if (message._id !== messageId) return [message];
+        const updated = { ...message, ...flags } as Message;
+        const leavesView =
+          (view === 'accepted' && updated.isArchived) ||
+          (view === 'archived' && !updated.isArchived) ||
+          (view === 'starred' && !updated.isStarred);
+        return leavesView ? [] : [updated];
+      })
+    );
+  };
+
+  const handleSelectChange = (messageId: string, selected: boolean) => {
+    setSelectAllMatching(false);
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (selected) next.add(messageId);
+      else next.delete(messageId);
+      return next;
+    });
+  };
+
+  const allLoadedSelected =
+    messages.length > 0 &&
+    messages.every((message) => selectedIds.has(message._id as string));
+
+  const handleSelectAllLoaded = (selected: boolean) => {
+    setSelectAllMatching(false);
+    setSelectedIds(
+      selected
+        ? new Set(messages.map((message) => message._id as string))
+        : new Set()
+    );
+  };
+
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    setSelectAllMatching(false);
+  };
+
+  const handleBatchAction = async (action: BatchMessageAction) => {
+    setIsBatchLoading(true);
+    try {
+      const { status, category, link, q, after, before } = filterParams;
+      const response = await axios.post<ApiResponse>(
+        '/api/batch-messages',
+        selectAllMatching
+          ? { action, filter: { status, category, link, q, after, before } }
+          : { action, messageIds: Array.from(selectedIds) }
+      );
+      const results = response.data.results ?? [];
+      const failedCount = results.filter((result) => !result.success).length;
+
+      if (selectAllMatching || response.data.hasMore) {
+        // Messages beyond the loaded pages changed too; start over
+        fetchMessages();
+      } else {
+        const succeeded = new Set(
+          results
+            .filter((result) => result.success)
+            .map((result) => result.messageId)
+        );
+        setMessages((current) =>
+          current.flatMap((message) => {
+            if (!succeeded.has(message._id as string)) return [message];
+            if (action === 'delete') return [];
+            if (action === 'archive' && view === 'accepted') return [];
+            return [
+              {
+                ...message,
+                ...(action === 'archive'
+                  ? { isArchived: true }
+                  : { isRead: true }),
+              } as Message,
+            ];
+          })
+        );
+      }
+
+      clearSelection();
+      notifyUnreadCountChanged();
+      toast({
+        title: response.data.message,
+        description: response.data.hasMore
+          ? 'More messages match this filter. Run the action again to continue.'
+          : failedCount > 0
+            ? `${failedCount} messages could not be updated.`
+            : undefined,
+      });
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      toast({
+        title: 'Error',
+        description:
+          axiosError.response?.data.message ?? 'Failed to update messages',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsBatchLoading(false);
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    const unreadIds = messages
+      .filter((message) => !message.isRead)
+      .map((message) => message._id as string)
+      .slice(0, MAX_BULK_MESSAGE_IDS);
+    if (unreadIds.length === 0) return;
+
+    try {
+      const response = await axios.post<ApiResponse>('/api/mark-messages', {
+        messageIds: unreadIds,
+        isRead: true,
+      });
+      setMessages((current) =>
+        current.map((message) =>
+          unreadIds.includes(message._id as string)
+            ? ({ ...message, isRead: true } as Message)
+            : message
+        )
+      );
+      notifyUnreadCountChanged();
+      toast({
+        title: response.data.message,
+      });
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      toast({
+        title: 'Error',
+        description:
+          axiosError.response?.data.message ?? 'Failed to update messages',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const { data: session } = useSession();
 
   const form = useForm({
@@ -35,12 +324,23 @@ function UserDashboard() {
 
   const { register, watch, setValue } = form;
   const acceptMessages = watch('acceptMessages');
+  const onlyVerifiedSenders = watch('onlyVerifiedSenders');
+  const requireApproval = watch('requireApproval');
+  const flaggedMessageAction = watch('flaggedMessageAction');
+  const acceptedCategories = watch('acceptedCategories');
+  const acceptSchedule: AcceptSchedule | undefined = watch('acceptSchedule');
+  const [isScheduleOpen, setIsScheduleOpen] = useState(false);
 
   const fetchAcceptMessages = useCallback(async () => {
     setIsSwitchLoading(true);
     try {
       const response = await axios.get<ApiResponse>('/api/accept-messages');
       setValue('acceptMessages', response.data.isAcceptingMessages);
+      setValue('onlyVerifiedSenders', response.data.onlyVerifiedSenders);
+      setValue('requireApproval', response.data.requireApproval);
+      setValue('flaggedMessageAction', response.data.flaggedMessageAction);
+      setValue('acceptedCategories', response.data.acceptedCategories);
+      setValue('acceptSchedule', response.data.acceptSchedule);
     } catch (error) {
       const axiosError = error as AxiosError<ApiResponse>;
       toast({
@@ -60,8 +360,19 @@ function UserDashboard() {
       setIsLoading(true);
       setIsSwitchLoading(false);
       try {
-        const response = await axios.get<ApiResponse>('/api/get-messages');
+        // Only the first page; older messages are loaded on scroll
+        const [response, statsResponse] = await Promise.all([
+          axios.get<ApiResponse>(messagesEndpoint, {
+            params: filterParams,
+          }),
+          axios.get<ApiResponse>('/api/message-stats', {
+            params: { status: view },
+          }),
+        ]);
         setMessages(response.data.messages || []);
+        setNextCursor(response.data.nextCursor ?? null);
+        setCategoryCounts(statsResponse.data.categoryCounts ?? {});
+        setReactionCounts(statsResponse.data.reactionCounts ?? {});
         if (refresh) {
           toast({
             title: 'Refreshed Messages',
@@ -81,9 +392,50 @@ function UserDashboard() {
         setIsSwitchLoading(false);
       }
     },
-    [setIsLoading, setMessages, toast]
+    [setIsLoading, setMessages, toast, view, messagesEndpoint, filterParams]
   );
 
+  const loadMoreMessages = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+
+    setIsLoadingMore(true);
+    try {
+      const response = await axios.get<ApiResponse>(messagesEndpoint, {
+        params: { ...filterParams, cursor: nextCursor },
+      });
+      setMessages((previous) => [
+        ...previous,
+        ...(response.data.messages || []),
+      ]);
+      setNextCursor(response.data.nextCursor ?? null);
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      toast({
+        title: 'Error',
+        description:
+          axiosError.response?.data.message ?? 'Failed to load more messages',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [nextCursor, isLoadingMore, toast, messagesEndpoint, filterParams]);
+
+  // Load the next page when the bottom of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) {
+        loadMoreMessages();
+      }
+    });
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [nextCursor, loadMoreMessages]);
+
   // Fetch initial state from the server
   useEffect(() => {
     if (!session || !session.user) return;
@@ -93,34 +445,128 @@ function UserDashboard() {
     fetchAcceptMessages();
   }, [session, setValue, toast, fetchAcceptMessages, fetchMessages]);
 
-  // Handle switch change
-  const handleSwitchChange = async () => {
+  // The stream stays open across tab and filter changes, so it reads the
+  // current filters from a ref instead of reconnecting
+  const liveFiltersRef = useRef(filterParams);
+  const fetchMessagesRef = useRef(fetchMessages);
+  useEffect(() => {
+    liveFiltersRef.current = filterParams;
+    fetchMessagesRef.current = fetchMessages;
+  }, [filterParams, fetchMessages]);
+
+  // New messages arrive over the live stream. They join the list when it is
+  // unfiltered and showing their tab; otherwise a toast points to them.
+  // After a long disconnect the list is reloaded instead.
+  const sessionUserId = session?.user?._id;
+  useEffect(() => {
+    if (!sessionUserId) return;
+
+    return openInboxStream((message) => {
+      notifyUnreadCountChanged();
+
+      const { status, category, link, q, after, before } =
+        liveFiltersRef.current;
+      const isAwaitingReview =
+        message.status === 'pending' || message.status === 'held';
+      const isUnfiltered = !category && !link && !q && !after && !before;
+      const isShown =
+        isUnfiltered &&
+        status === (isAwaitingReview ? 'pending' : 'accepted');
+
+      if (!isShown) {
+        toast({
+          title: 'New message received',
+          description: isAwaitingReview
+            ? 'It is waiting for your review in Pending.'
+            : undefined,
+        });
+        return;
+      }
+
+      setMessages((current) =>
+        current.some((m) => m._id === message._id)
+          ? current
+          : [message, ...current]
+      );
+      setCategoryCounts((counts) => ({
+        ...counts,
+        [message.category]: (counts[message.category] ?? 0) + 1,
+      }));
+    }, () => {
+      notifyUnreadCountChanged();
+      fetchMessagesRef.current();
+    });
+  }, [sessionUserId, toast]);
+
+  // Saves one setting from the controls below. The control only changes once
+  // the server has accepted the new value, so a refused change leaves it as is.
+  const updateSetting = async <K extends keyof MessageSettings>(
+    key: K,
+    value: MessageSettings[K]
+  ): Promise<boolean> => {
     try {
       const response = await axios.post<ApiResponse>('/api/accept-messages', {
-        acceptMessages: !acceptMessages,
+        [key]: value,
       });
-      setValue('acceptMessages', !acceptMessages);
+      // The form itself is untyped, so its field name is a plain string
+      const field: string = key;
+      setValue(field, value);
       toast({
         title: response.data.message,
         variant: 'default',
       });
+      return true;
     } catch (error) {
       const axiosError = error as AxiosError<ApiResponse>;
+      const fieldErrors = axiosError.response?.data.errors;
       toast({
         title: 'Error',
         description:
+          (fieldErrors && Object.values(fieldErrors).flat()[0]) ??
           axiosError.response?.data.message ??
           'Failed to update message settings',
         variant: 'destructive',
       });
+      return false;
     }
   };
 
+  // Toggle one topic senders may pick; at least one must stay on
+  const handleAcceptedCategoryToggle = (toggled: MessageCategory) => {
+    const current: MessageCategory[] =
+      acceptedCategories ?? [...MESSAGE_CATEGORIES];
+    updateSetting(
+      'acceptedCategories',
+      current.includes(toggled)
+        ? current.filter((c) => c !== toggled)
+        : MESSAGE_CATEGORIES.filter((c) => c === toggled || current.includes(c))
+    );
+  };
+
   if (!session || !session.user) {
     return <div></div>;
   }
 
-  const { username } = session.user as User;
+  const { username, isCampusVerified } = session.user as User;
+
+  const totalCount = Object.values(categoryCounts).reduce(
+    (sum, count) => sum + (count ?? 0),
+    0
+  );
+
+  // What the schedule means right now, shown next to the switch
+  const scheduleState = getScheduleState(acceptSchedule);
+  const scheduleSummary = hasAcceptSchedule(acceptSchedule)
+    ? [
+        scheduleState.isOpen ? 'open now' : 'closed now',
+        scheduleState.nextChangeAt &&
+          `${scheduleState.isOpen ? 'closes' : 'opens'} ${formatScheduleDate(
+            scheduleState.nextChangeAt
+          )}`,
+      ]
+        .filter(Boolean)
+        .join(', ')
+    : null;
 
   const baseUrl = `${window.location.protocol}//${window.location.host}`;
   const profileUrl = `${baseUrl}/u/${username}`;
@@ -135,7 +581,15 @@ function UserDashboard() {
 
   return (
     <div className="my-8 mx-4 md:mx-8 lg:mx-auto p-6 bg-white rounded w-full max-w-6xl">
-      <h1 className="text-4xl font-bold mb-4">User Dashboard</h1>
+      <h1 className="text-4xl font-bold mb-4">
+        User Dashboard
+        {isCampusVerified && (
+          <span className="ml-3 align-middle inline-flex items-center gap-1 rounded-full bg-green-100 px-3 py-1 text-sm font-medium text-green-800">
+            <BadgeCheck className="h-4 w-4" />
+            Verified Student
+          </span>
+        )}
+      </h1>
 
       <div className="mb-4">
         <h2 className="text-lg font-semibold mb-2">Copy Your Unique Link</h2>{' '}
@@ -148,21 +602,261 @@ function UserDashboard() {
           />
           <Button onClick={copyToClipboard}>Copy</Button>
         </div>
+        <Link
+          href="/dashboard/profile"
+          className="mt-2 inline-block text-sm text-blue-600 hover:text-blue-800"
+        >
+          Edit your public profile
+        </Link>
+        <LinkQrCode url={profileUrl} username={username as string} />
       </div>
 
+      <FeedbackLinks
+        username={username as string}
+        profileUrl={profileUrl}
+        onLinksChange={setFeedbackLinks}
+      />
+
       <div className="mb-4">
         <Switch
           {...register('acceptMessages')}
           checked={acceptMessages}
-          onCheckedChange={handleSwitchChange}
+          onCheckedChange={(checked) =>
+            updateSetting('acceptMessages', checked)
+          }
           disabled={isSwitchLoading}
         />
         <span className="ml-2">
           Accept Messages: {acceptMessages ? 'On' : 'Off'}
         </span>
+        {acceptMessages && scheduleSummary && (
+          <span className="ml-2 text-sm text-gray-500">
+            · Scheduled: {scheduleSummary}
+          </span>
+        )}
+        <Button
+          variant="link"
+          size="sm"
+          onClick={() => setIsScheduleOpen((open) => !open)}
+        >
+          {isScheduleOpen ? 'Hide schedule' : 'Edit schedule'}
+        </Button>
+        {isScheduleOpen && (
+          <AcceptScheduleSettings
+            schedule={acceptSchedule}
+            disabled={isSwitchLoading}
+            onSave={(schedule) => updateSetting('acceptSchedule', schedule)}
+          />
+        )}
+      </div>
+      <div className="mb-4">
+        <Switch
+          {...register('requireApproval')}
+          checked={requireApproval}
+          onCheckedChange={(checked) =>
+            updateSetting('requireApproval', checked)
+          }
+          disabled={isSwitchLoading}
+        />
+        <span className="ml-2">
+          Require Approval: {requireApproval ? 'On' : 'Off'}
+        </span>
+        <p className="text-sm text-gray-500 mt-1">
+          New messages wait in Pending until you approve them.
+        </p>
+      </div>
+      <div className="mb-4">
+        <Switch
+          {...register('onlyVerifiedSenders')}
+          checked={onlyVerifiedSenders}
+          onCheckedChange={(checked) =>
+            updateSetting('onlyVerifiedSenders', checked)
+          }
+          disabled={isSwitchLoading}
+        />
+        <span className="ml-2">
+          Only verified campus members: {onlyVerifiedSenders ? 'On' : 'Off'}
+        </span>
+        <p className="text-sm text-gray-500 mt-1">
+          Senders must be signed in with an institute email. They still stay
+          anonymous to you.
+        </p>
+      </div>
+      <div className="mb-4">
+        <label htmlFor="flaggedMessageAction" className="mr-2">
+          Flagged messages:
+        </label>
+        <select
+          id="flaggedMessageAction"
+          className="border rounded p-1"
+          value={flaggedMessageAction ?? 'blur'}
+          onChange={(e) =>
+            updateSetting(
+              'flaggedMessageAction',
+              e.target.value as FlaggedMessageAction
+            )
+          }
+          disabled={isSwitchLoading}
+        >
+          <option value="blur">Blur in my inbox</option>
+          <option value="hold">Hold for my review</option>
+          <option value="block">Block them</option>
+        </select>
+      </div>
+      <div className="mb-4">
+        <span>Accepted topics:</span>
+        <div className="mt-2 flex flex-wrap gap-2">
+          {MESSAGE_CATEGORIES.map((c) => (
+            <Button
+              key={c}
+              size="sm"
+              variant={acceptedCategories?.includes(c) ? 'default' : 'outline'}
+              onClick={() => handleAcceptedCategoryToggle(c)}
+              disabled={isSwitchLoading}
+            >
+              {MESSAGE_CATEGORY_LABELS[c]}
+            </Button>
+          ))}
+        </div>
+        <p className="text-sm text-gray-500 mt-1">
+          Senders can only file messages under the topics you accept.
+        </p>
       </div>
       <Separator />
 
+      <div className="mt-4 flex gap-2">
+        <Button
+          variant={view === 'accepted' ? 'default' : 'outline'}
+          onClick={() => setView('accepted')}
+        >
+          Inbox
+        </Button>
+        <Button
+          variant={view === 'starred' ? 'default' : 'outline'}
+          onClick={() => setView('starred')}
+        >
+          Starred
+        </Button>
+        <Button
+          variant={view === 'archived' ? 'default' : 'outline'}
+          onClick={() => setView('archived')}
+        >
+          Archive
+        </Button>
+        <Button
+          variant={view === 'pending' ? 'default' : 'outline'}
+          onClick={() => setView('pending')}
+        >
+          Pending
+        </Button>
+        <Button
+          variant={view === 'trash' ? 'default' : 'outline'}
+          onClick={() => setView('trash')}
+        >
+          Trash
+        </Button>
+      </div>
+
+      <div className="mt-4 flex flex-col md:flex-row gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-3 h-4 w-4 text-gray-500" />
+          <Input
+            className="pl-8"
+            placeholder='Search messages, use "quotes" for a phrase'
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+        <Input
+          type="date"
+          className="md:w-44"
+          aria-label="From date"
+          value={dateFrom}
+          onChange={(e) => setDateFrom(e.target.value)}
+        />
+        <Input
+          type="date"
+          className="md:w-44"
+          aria-label="To date"
+          value={dateTo}
+          onChange={(e) => setDateTo(e.target.value)}
+        />
+        {feedbackLinks.length > 0 && (
+          <select
+            className="border rounded p-2 md:w-48"
+            aria-label="Feedback link"
+            value={link}
+            onChange={(e) => setLink(e.target.value)}
+          >
+            <option value="">All links</option>
+            {feedbackLinks.map((l) => (
+              <option key={l._id as string} value={l._id as string}>
+                {l.title}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="mt-4 flex flex-wrap gap-2">
+        <Button
+          size="sm"
+          variant={category === undefined ? 'secondary' : 'ghost'}
+          onClick={() => setCategory(undefined)}
+        >
+          All ({totalCount})
+        </Button>
+        {MESSAGE_CATEGORIES.map((c) => (
+          <Button
+            key={c}
+            size="sm"
+            variant={category === c ? 'secondary' : 'ghost'}
+            onClick={() => setCategory(c)}
+          >
+            {MESSAGE_CATEGORY_LABELS[c]} ({categoryCounts[c] ?? 0})
+          </Button>
+        ))}
+      </div>
+
+      {MESSAGE_REACTIONS.some((reaction) => reactionCounts[reaction]) && (
+        <div className="mt-2 flex flex-wrap items-center gap-3 text-sm text-gray-600">
+          <span>Your reactions:</span>
+          {MESSAGE_REACTIONS.filter((reaction) => reactionCounts[reaction]).map(
+            (reaction) => (
+              <span key={reaction}>
+                {MESSAGE_REACTION_EMOJI[reaction]} {reactionCounts[reaction]}
+              </span>
+            )
+          )}
+        </div>
+      )}
+
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        <span className="text-sm text-gray-600">Export with these filters:</span>
+        <Button size="sm" variant="outline" asChild>
+          <a href={`/api/export-messages?${exportQuery}&format=csv`} download>
+            <Download className="mr-1 h-4 w-4" />
+            CSV
+          </a>
+        </Button>
+        <Button size="sm" variant="outline" asChild>
+          <a href={`/api/export-messages?${exportQuery}&format=json`} download>
+            <Download className="mr-1 h-4 w-4" />
+            JSON
+          </a>
+        </Button>
+        <Button size="sm" variant="outline" asChild>
+          <a
+            href={`/dashboard/report?${exportQuery}`}
+            target="_blank"
+            rel="noopener noreferrer"
+          >
+            <FileText className="mr-1 h-4 w-4" />
+            Printable report
+          </a>
+        </Button>
+      </div>
+
       <Button
         className="mt-4"
         variant="outline"
@@ -177,6 +871,78 @@ function UserDashboard() {
           <RefreshCcw className="h-4 w-4" />
         )}
       </Button>
+      {view !== 'pending' && view !== 'trash' && (
+        <Button
+          className="mt-4 ml-2"
+          variant="outline"
+          onClick={handleMarkAllRead}
+          disabled={!messages.some((message) => !message.isRead)}
+        >
+          Mark all as read
+        </Button>
+      )}
+      {view !== 'trash' && messages.length > 0 && (
+        <div className="mt-4 flex flex-wrap items-center gap-2">
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              className="h-4 w-4"
+              checked={allLoadedSelected}
+              onChange={(e) => handleSelectAllLoaded(e.target.checked)}
+            />
+            Select all
+          </label>
+          {allLoadedSelected && nextCursor && !selectAllMatching && (
+            <Button
+              size="sm"
+              variant="link"
+              onClick={() => setSelectAllMatching(true)}
+            >
+              Select all messages matching this filter
+            </Button>
+          )}
+          {(selectedIds.size > 0 || selectAllMatching) && (
+            <>
+              <span className="text-sm text-gray-600">
+                {selectAllMatching
+                  ? 'All matching messages selected'
+                  : `${selectedIds.size} selected`}
+              </span>
+              <Button
+                size="sm"
+                variant="destructive"
+                onClick={() => handleBatchAction('delete')}
+                disabled={isBatchLoading}
+              >
+                Delete
+              </Button>
+              {view !== 'pending' && view !== 'archived' && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleBatchAction('archive')}
+                  disabled={isBatchLoading}
+                >
+                  Archive
+                </Button>
+              )}
+              {view !== 'pending' && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleBatchAction('markRead')}
+                  disabled={isBatchLoading}
+                >
+                  Mark as read
+                </Button>
+              )}
+              <Button size="sm" variant="ghost" onClick={clearSelection}>
+                Clear
+              </Button>
+            </>
+          )}
+        </div>
+      )}
       <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-6">
         {messages.length > 0 ? (
           messages.map((message, index) => (
@@ -184,12 +950,26 @@ function UserDashboard() {
               key={message._id}
               message={message}
               onMessageDelete={handleDeleteMessage}
+              onMessageReviewed={handleDeleteMessage}
+              onMessageRestore={handleRestoreMessage}
+              highlight={debouncedSearch}
+              onFlagsChange={handleFlagsChange}
+              onReactionChange={handleReactionChange}
+              isSelected={
+                selectAllMatching || selectedIds.has(message._id as string)
+              }
+              onSelectChange={
+                view === 'trash' ? undefined : handleSelectChange
+              }
             />
           ))
         ) : (
           <p>No messages to display.</p>
         )}
       </div>
+      <div ref={loadMoreRef} className="flex justify-center py-6">
+        {isLoadingMore && <Loader2 className="h-6 w-6 animate-spin" />}
+      </div>
     </div>
   );
 }
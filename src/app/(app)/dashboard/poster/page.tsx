@@ -0,0 +1,76 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import axios, { AxiosError } from 'axios';
+import { Loader2, Printer } from 'lucide-react';
+import { User } from 'next-auth';
+import { useSession } from 'next-auth/react';
+import { useSearchParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { ApiResponse, PublicProfile } from '@/types/ApiResponse';
+import { renderPosterSvg, toPosterContent } from '@/lib/poster';
+
+// The A4 poster on its own page. Printing it, or choosing "Save as PDF" as
+// the print destination, gives a full-bleed page without a PDF library.
+function FeedbackPoster() {
+  const { data: session } = useSession();
+  const searchParams = useSearchParams();
+  const linkSlug = searchParams.get('link') ?? undefined; // a named feedback link
+  const { toast } = useToast();
+  const [profile, setProfile] = useState<PublicProfile | null>(null);
+
+  const username = (session?.user as User | undefined)?.username;
+
+  useEffect(() => {
+    if (!username) return;
+
+    axios
+      .get<ApiResponse>('/api/public-profile', {
+        params: { username, link: linkSlug },
+      })
+      .then((response) => setProfile(response.data.profile ?? null))
+      .catch((error) => {
+        const axiosError = error as AxiosError<ApiResponse>;
+        toast({
+          title: 'Error',
+          description:
+            axiosError.response?.data.message ?? 'Failed to load the poster',
+          variant: 'destructive',
+        });
+      });
+  }, [username, linkSlug, toast]);
+
+  const posterSvg = useMemo(() => {
+    if (!profile) return null;
+    const url = `${window.location.protocol}//${window.location.host}/u/${
+      profile.username
+    }${linkSlug ? `/${linkSlug}` : ''}`;
+    return renderPosterSvg(toPosterContent(profile, url));
+  }, [profile, linkSlug]);
+
+  if (!session || !session.user) {
+    return <div></div>;
+  }
+
+  return (
+    <div className="my-8 mx-auto flex flex-col items-center gap-4 print:m-0">
+      <style>{'@page { size: A4; margin: 0; }'}</style>
+      <Button className="print:hidden" onClick={() => window.print()}>
+        <Printer className="mr-2 h-4 w-4" />
+        Print or save as PDF
+      </Button>
+      {posterSvg ? (
+        <div
+          className="w-[210mm] max-w-full shadow-lg print:shadow-none [&>svg]:h-auto [&>svg]:w-full"
+          // Generated locally; every profile field is escaped by renderPosterSvg
+          dangerouslySetInnerHTML={{ __html: posterSvg }}
+        />
+      ) : (
+        <Loader2 className="h-6 w-6 animate-spin" />
+      )}
+    </div>
+  );
+}
+
+export default FeedbackPoster;
@@ -0,0 +1,332 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import axios, { AxiosError } from 'axios';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import * as z from 'zod';
+import Link from 'next/link';
+import { ArrowLeft, Loader2, Trash2, Upload } from 'lucide-react';
+import { User } from 'next-auth';
+import { useSession } from 'next-auth/react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Separator } from '@/components/ui/separator';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { useToast } from '@/components/ui/use-toast';
+import { ProfileHeader } from '@/components/ProfileHeader';
+import { ApiResponse } from '@/types/ApiResponse';
+import { updateProfileSchema } from '@/schemas/profileSchema';
+import {
+  AVATAR_MIME_TYPES,
+  DEFAULT_THEME_COLOR,
+  getThemeTextColor,
+  MAX_AVATAR_BYTES,
+  ProfileSettings,
+} from '@/lib/profile';
+
+type ProfileFormValues = z.infer<typeof updateProfileSchema>;
+
+// Edits what senders see on /u/[username], with a live preview
+export default function ProfileSettingsPage() {
+  const { data: session } = useSession();
+  const user: User = session?.user;
+  const { toast } = useToast();
+  const avatarInput = useRef<HTMLInputElement>(null);
+  const [avatarUrl, setAvatarUrl] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isAvatarLoading, setIsAvatarLoading] = useState(false);
+
+  const form = useForm<ProfileFormValues>({
+    resolver: zodResolver(updateProfileSchema),
+    defaultValues: {
+      displayName: '',
+      bio: '',
+      customPrompt: '',
+      themeColor: DEFAULT_THEME_COLOR,
+    },
+  });
+
+  const showError = (error: unknown, fallback: string) => {
+    const axiosError = error as AxiosError<ApiResponse>;
+    toast({
+      title: 'Error',
+      description: axiosError.response?.data.message ?? fallback,
+      variant: 'destructive',
+    });
+  };
+
+  useEffect(() => {
+    if (!session || !session.user) return;
+
+    axios
+      .get<ApiResponse>('/api/profile')
+      .then((response) => {
+        const profile = response.data.profileSettings;
+        if (!profile) return;
+        form.reset({
+          displayName: profile.displayName ?? '',
+          bio: profile.bio ?? '',
+          customPrompt: profile.customPrompt ?? '',
+          themeColor: profile.themeColor ?? DEFAULT_THEME_COLOR,
+        });
+        setAvatarUrl(profile.avatarUrl);
+      })
+      .catch((error) => {
+        const axiosError = error as AxiosError<ApiResponse>;
+        toast({
+          title: 'Error',
+          description:
+            axiosError.response?.data.message ?? 'Failed to load your profile',
+          variant: 'destructive',
+        });
+      });
+  }, [session, form, toast]);
+
+  const onSubmit = async (data: ProfileFormValues) => {
+    setIsSaving(true);
+    try {
+      const response = await axios.patch<ApiResponse>('/api/profile', data);
+      toast({
+        title: response.data.message,
+      });
+    } catch (error) {
+      showError(error, 'Failed to update your profile');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAvatarChange = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // picking the same file again still triggers a change
+    if (!file) return;
+    if (file.size > MAX_AVATAR_BYTES) {
+      toast({
+        title: 'Image too large',
+        description: `Choose an image under ${MAX_AVATAR_BYTES / 1024 / 1024} MB.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsAvatarLoading(true);
+    try {
+      const formData = new FormData();
+      formData.append('avatar', file);
+      const response = await axios.post<ApiResponse>(
+        '/api/profile/avatar',
+        formData
+      );
+      setAvatarUrl(response.data.profileSettings?.avatarUrl ?? null);
+      toast({
+        title: response.data.message,
+      });
+    } catch (error) {
+      showError(error, 'Failed to upload avatar');
+    } finally {
+      setIsAvatarLoading(false);
+    }
+  };
+
+  const handleAvatarRemove = async () => {
+    setIsAvatarLoading(true);
+    try {
+      const response = await axios.delete<ApiResponse>('/api/profile/avatar');
+      setAvatarUrl(null);
+      toast({
+        title: response.data.message,
+      });
+    } catch (error) {
+      showError(error, 'Failed to remove avatar');
+    } finally {
+      setIsAvatarLoading(false);
+    }
+  };
+
+  if (!session || !session.user) {
+    return <div></div>;
+  }
+
+  const username = user.username ?? '';
+  const values = form.watch();
+  const preview: ProfileSettings = {
+    displayName: values.displayName || null,
+    bio: values.bio || null,
+    avatarUrl,
+    customPrompt: values.customPrompt || null,
+    themeColor: values.themeColor || null,
+  };
+  const previewColor = preview.themeColor ?? DEFAULT_THEME_COLOR;
+
+  return (
+    <div className="my-8 mx-4 md:mx-8 lg:mx-auto p-6 bg-white rounded w-full max-w-4xl">
+      <Link
+        href="/dashboard"
+        className="mb-4 inline-flex items-center text-sm text-gray-600 hover:text-gray-900"
+      >
+        <ArrowLeft className="mr-1 h-4 w-4" />
+        Back to dashboard
+      </Link>
+      <h1 className="text-4xl font-bold mb-6">Public Profile</h1>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        <div>
+          <div className="mb-6 flex items-center gap-2">
+            <input
+              ref={avatarInput}
+              type="file"
+              accept={AVATAR_MIME_TYPES.join(',')}
+              className="hidden"
+              onChange={handleAvatarChange}
+            />
+            <Button
+              variant="outline"
+              onClick={() => avatarInput.current?.click()}
+              disabled={isAvatarLoading}
+            >
+              {isAvatarLoading ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Upload className="mr-2 h-4 w-4" />
+              )}
+              {avatarUrl ? 'Change avatar' : 'Upload avatar'}
+            </Button>
+            {avatarUrl && (
+              <Button
+                variant="outline"
+                size="icon"
+                aria-label="Remove avatar"
+                onClick={handleAvatarRemove}
+                disabled={isAvatarLoading}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <FormField
+                control={form.control}
+                name="displayName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Display name</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder={username}
+                        {...field}
+                        value={field.value ?? ''}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="bio"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Bio</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        className="resize-none"
+                        placeholder="CR of ECE 2nd year. Tell me what to raise in the next meeting."
+                        {...field}
+                        value={field.value ?? ''}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="customPrompt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Question prompt</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder={`Send Anonymous Message to @${username}`}
+                        {...field}
+                        value={field.value ?? ''}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Shown above the message box. Named feedback links use
+                      their own question instead.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="themeColor"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Theme colour</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="color"
+                        className="h-10 w-20 p-1"
+                        {...field}
+                        value={field.value ?? DEFAULT_THEME_COLOR}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Please wait
+                  </>
+                ) : (
+                  'Save profile'
+                )}
+              </Button>
+            </form>
+          </Form>
+        </div>
+
+        <div>
+          <h2 className="text-lg font-semibold mb-4">Preview</h2>
+          <div className="rounded border p-6">
+            <ProfileHeader username={username} profile={preview} />
+            <Separator className="mb-4" />
+            <p className="font-medium">
+              {preview.customPrompt ??
+                `Send Anonymous Message to @${username}`}
+            </p>
+            <div
+              className="mt-4 inline-block rounded px-4 py-2 text-sm"
+              style={{
+                backgroundColor: previewColor,
+                color: getThemeTextColor(previewColor),
+              }}
+            >
+              Send It
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import axios, { AxiosError } from 'axios';
+import dayjs from 'dayjs';
+import { Loader2, Printer } from 'lucide-react';
+import { User } from 'next-auth';
+import { useSession } from 'next-auth/react';
+import { useSearchParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { ApiResponse } from '@/types/ApiResponse';
+import type { ExportedMessage } from '@/lib/messageExport';
+import {
+  MESSAGE_CATEGORIES,
+  MESSAGE_CATEGORY_LABELS,
+  MessageCategory,
+} from '@/lib/messageCategories';
+
+// Print-friendly version of the JSON export. The browser's "Save as PDF"
+// print destination turns it into a PDF, so no PDF library is needed.
+function MessageReport() {
+  const { data: session } = useSession();
+  const searchParams = useSearchParams(); // the dashboard's current filters
+  const { toast } = useToast();
+  const [messages, setMessages] = useState<ExportedMessage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const category = searchParams.get('category') as MessageCategory | null;
+  const after = searchParams.get('after');
+  const before = searchParams.get('before');
+  const q = searchParams.get('q');
+
+  useEffect(() => {
+    if (!session || !session.user) return;
+
+    const params = new URLSearchParams(searchParams.toString());
+    params.set('format', 'json');
+    axios
+      .get<ExportedMessage[]>(`/api/export-messages?${params.toString()}`)
+      .then((response) => setMessages(response.data))
+      .catch((error) => {
+        const axiosError = error as AxiosError<ApiResponse>;
+        toast({
+          title: 'Error',
+          description:
+            axiosError.response?.data.message ?? 'Failed to load the report',
+          variant: 'destructive',
+        });
+      })
+      .finally(() => setIsLoading(false));
+  }, [session, searchParams, toast]);
+
+  const categoryCounts = useMemo(() => {
+    const counts: Partial<Record<MessageCategory, number>> = {};
+    for (const message of messages) {
+      const key = message.category as MessageCategory;
+      counts[key] = (counts[key] ?? 0) + 1;
+    }
+    return counts;
+  }, [messages]);
+
+  if (!session || !session.user) {
+    return <div></div>;
+  }
+
+  const { username } = session.user as User;
+
+  return (
+    <div className="my-8 mx-4 md:mx-8 lg:mx-auto p-6 bg-white rounded w-full max-w-5xl print:m-0 print:p-0 print:max-w-none">
+      <div className="flex justify-between items-start mb-6">
+        <div>
+          <h1 className="text-3xl font-bold">Feedback report for @{username}</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            Generated {dayjs().format('MMM D, YYYY h:mm A')}
+            {category && ` · ${MESSAGE_CATEGORY_LABELS[category]}`}
+            {after && ` · from ${dayjs(after).format('MMM D, YYYY')}`}
+            {before && ` · until ${dayjs(before).format('MMM D, YYYY')}`}
+            {q && ` · matching "${q}"`}
+          </p>
+        </div>
+        <Button className="print:hidden" onClick={() => window.print()}>
+          <Printer className="mr-2 h-4 w-4" />
+          Print / Save as PDF
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : (
+        <>
+          <div className="mb-6 flex flex-wrap gap-x-6 gap-y-1 text-sm">
+            <span className="font-semibold">{messages.length} messages</span>
+            {MESSAGE_CATEGORIES.filter((c) => categoryCounts[c]).map((c) => (
+              <span key={c}>
+                {MESSAGE_CATEGORY_LABELS[c]}: {categoryCounts[c]}
+              </span>
+            ))}
+          </div>
+
+          {messages.length > 0 ? (
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr className="border-b-2 text-left">
+                  <th className="py-2 pr-4 w-32">Date</th>
+                  <th className="py-2 pr-4 w-32">Topic</th>
+                  <th className="py-2 pr-4">Message</th>
+                  <th className="py-2">Answer</th>
+                </tr>
+              </thead>
+              <tbody>
+                {messages.map((message) => (
+                  <tr
+                    key={message.id}
+                    className="border-b align-top break-inside-avoid"
+                  >
+                    <td className="py-2 pr-4 whitespace-nowrap">
+                      {dayjs(message.createdAt).format('MMM D, YYYY')}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {MESSAGE_CATEGORY_LABELS[
+                        message.category as MessageCategory
+                      ] ?? message.category}
+                    </td>
+                    <td className="py-2 pr-4">{message.content}</td>
+                    <td className="py-2">{message.answer}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p>No messages match these filters.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default MessageReport;
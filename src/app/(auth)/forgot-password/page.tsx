@@ -0,0 +1,137 @@
+'use client'; // Marks this component as a client-side React component
+
+// Importing UI components and hooks
+import { Button } from '@/components/ui/button';
+import {
+  Form,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/components/ui/use-toast';
+
+// Type and validation
+import { ApiResponse } from '@/types/ApiResponse';
+import { zodResolver } from '@hookform/resolvers/zod';
+import axios, { AxiosError } from 'axios';
+import { Loader2 } from 'lucide-react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import * as z from 'zod';
+import { forgotPasswordSchema } from '@/schemas/forgotPasswordSchema';
+
+export default function ForgotPassword() {
+  const router = useRouter(); // for navigation
+  const { toast } = useToast(); // toast for showing feedback
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Initialize react-hook-form with Zod schema
+  const form = useForm<z.infer<typeof forgotPasswordSchema>>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: {
+      email: '',
+    },
+  });
+
+  // Submit handler
+  const onSubmit = async (data: z.infer<typeof forgotPasswordSchema>) => {
+    setIsSubmitting(true);
+    try {
+      // Ask the API to email a reset code
+      const response = await axios.post<ApiResponse>(
+        '/api/forgot-password',
+        data
+      );
+
+      toast({
+        title: 'Check your email',
+        description: response.data.message,
+      });
+
+      // Carry the email over so the user only has to type the code
+      router.push(`/reset-password?email=${encodeURIComponent(data.email)}`);
+    } catch (error) {
+      // Handle error with fallback message
+      const axiosError = error as AxiosError<ApiResponse>;
+      toast({
+        title: 'Request Failed',
+        description:
+          axiosError.response?.data.message ??
+          'An error occurred. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex justify-center items-center min-h-screen bg-gray-800">
+      <div className="w-full max-w-md p-8 space-y-8 bg-white rounded-lg shadow-md">
+        {/* Header */}
+        <div className="text-center">
+          <h1 className="text-4xl font-extrabold tracking-tight lg:text-5xl mb-6">
+            Forgot Password
+          </h1>
+          <p className="mb-4">
+            Enter your account email and we will send you a reset code
+          </p>
+        </div>
+
+        {/* Form with react-hook-form */}
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <FormField
+              name="email"
+              control={form.control}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <Input {...field} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Please wait
+                </>
+              ) : (
+                'Send Reset Code'
+              )}
+            </Button>
+          </form>
+        </Form>
+
+        {/* Back to Sign In */}
+        <div className="text-center mt-4">
+          <p>
+            Remembered it?{' '}
+            <Link href="/sign-in" className="text-blue-600 hover:text-blue-800">
+              Sign in
+            </Link>
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+//
+// Revisit Later – Theory + Flow Summary 🧠
+//
+// ✅ First step of the password reset flow.
+// ✅ Sends the email to `/api/forgot-password`, which emails a one-time code.
+// ✅ The API answers the same way whether or not the email exists (no account enumeration).
+//
+// 🔁 Flow:
+// 1. User lands on `/forgot-password` (linked from sign-in)
+// 2. Enters their email → API emails a 6-digit code valid for 15 minutes
+// 3. Redirect to `/reset-password?email=...` to enter the code and a new password
+//
@@ -0,0 +1,166 @@
+'use client'; // Marks this component as a client-side React component
+
+// Importing UI components and hooks
+import { Button } from '@/components/ui/button';
+import {
+  Form,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/components/ui/use-toast';
+
+// Type and validation
+import { ApiResponse } from '@/types/ApiResponse';
+import { zodResolver } from '@hookform/resolvers/zod';
+import axios, { AxiosError } from 'axios';
+import { Loader2 } from 'lucide-react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import * as z from 'zod';
+import { resetPasswordSchema } from '@/schemas/resetPasswordSchema';
+
+export default function ResetPassword() {
+  const router = useRouter(); // for navigation
+  const searchParams = useSearchParams(); // email handed over from /forgot-password
+  const { toast } = useToast(); // toast for showing feedback
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Initialize react-hook-form with Zod schema
+  const form = useForm<z.infer<typeof resetPasswordSchema>>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: {
+      email: searchParams.get('email') ?? '',
+      code: '',
+      password: '',
+    },
+  });
+
+  // Submit handler
+  const onSubmit = async (data: z.infer<typeof resetPasswordSchema>) => {
+    setIsSubmitting(true);
+    try {
+      const response = await axios.post<ApiResponse>(
+        '/api/reset-password',
+        data
+      );
+
+      // Success toast and redirect to sign-in page
+      toast({
+        title: 'Success',
+        description: response.data.message,
+      });
+
+      router.replace('/sign-in');
+    } catch (error) {
+      // Handle error with fallback message
+      const axiosError = error as AxiosError<ApiResponse>;
+      toast({
+        title: 'Reset Failed',
+        description:
+          axiosError.response?.data.message ??
+          'An error occurred. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex justify-center items-center min-h-screen bg-gray-800">
+      <div className="w-full max-w-md p-8 space-y-8 bg-white rounded-lg shadow-md">
+        {/* Header */}
+        <div className="text-center">
+          <h1 className="text-4xl font-extrabold tracking-tight lg:text-5xl mb-6">
+            Reset Password
+          </h1>
+          <p className="mb-4">
+            Enter the code sent to your email and choose a new password
+          </p>
+        </div>
+
+        {/* Form with react-hook-form */}
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <FormField
+              name="email"
+              control={form.control}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <Input {...field} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              name="code"
+              control={form.control}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reset Code</FormLabel>
+                  <Input {...field} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              name="password"
+              control={form.control}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New Password</FormLabel>
+                  <Input type="password" {...field} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Please wait
+                </>
+              ) : (
+                'Reset Password'
+              )}
+            </Button>
+          </form>
+        </Form>
+
+        {/* Ask for another code */}
+        <div className="text-center mt-4">
+          <p>
+            Didn&apos;t get a code?{' '}
+            <Link
+              href="/forgot-password"
+              className="text-blue-600 hover:text-blue-800"
+            >
+              Send a new one
+            </Link>
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+//
+// Revisit Later – Theory + Flow Summary 🧠
+//
+// ✅ Second step of the password reset flow.
+// ✅ Email is prefilled from the `?email=` query param set by `/forgot-password`.
+// ✅ `/api/reset-password` checks the hashed one-time code and its expiry, then
+//    sets the new password and clears the code (single use).
+//
+// 🔁 Flow:
+// 1. User enters the 6-digit code and a new password
+// 2. Form is validated → API call is made
+// 3. On success → Toast → Redirect to sign-in
+// 4. On failure → Toast with error message (wrong/expired code)
+//
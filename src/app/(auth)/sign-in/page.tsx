@@ -102,6 +102,14 @@ export default function SignInForm() {
                   <FormLabel>Password</FormLabel>
                   <Input type="password" {...field} />
                   <FormMessage />
+                  <div className="text-right text-sm">
+                    <Link
+                      href="/forgot-password"
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      Forgot password?
+                    </Link>
+                  </div>
                 </FormItem>
               )}
             />
@@ -24,6 +24,9 @@ import axios, { AxiosError } from 'axios';
 import { Loader2 } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import { signUpSchema } from '@/schemas/signUpSchema';
+import { getAllowedEmailDomains } from '@/lib/emailDomains';
+
+const allowedEmailDomains = getAllowedEmailDomains();
 
 export default function SignUpForm() {
   const [username, setUsername] = useState(''); // Stores entered username
@@ -156,6 +159,11 @@ export default function SignUpForm() {
                   <FormLabel>Email</FormLabel>
                   <Input {...field} name="email" />
                   <p className="text-muted text-gray-400 text-sm">
+                    {allowedEmailDomains.length > 0
+                      ? `Use your institute email (${allowedEmailDomains
+                          .map((domain) => `@${domain}`)
+                          .join(', ')}). `
+                      : ''}
                     We will send you a verification code
                   </p>
                   <FormMessage />
@@ -17,20 +17,70 @@ import { ApiResponse } from '@/types/ApiResponse';
 import { zodResolver } from '@hookform/resolvers/zod';
 import axios, { AxiosError } from 'axios';
 import { useParams, useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import * as z from 'zod';
 import { verifySchema } from '@/schemas/verifySchema';
+import { VERIFY_CODE_RESEND_COOLDOWN_SECONDS } from '@/lib/verifyCode';
 
 export default function VerifyAccount() {
   const router = useRouter(); // for navigation
   const params = useParams<{ username: string }>(); // grabbing username from the URL
   const { toast } = useToast(); // toast for showing feedback
 
+  // Seconds until "Resend code" is enabled again. Users usually arrive
+  // straight from sign-up, so a code was just sent.
+  const [resendCountdown, setResendCountdown] = useState(
+    VERIFY_CODE_RESEND_COOLDOWN_SECONDS
+  );
+  const [isResending, setIsResending] = useState(false);
+
   // Initialize react-hook-form with Zod schema
   const form = useForm<z.infer<typeof verifySchema>>({
     resolver: zodResolver(verifySchema),
   });
 
+  // Tick the countdown down once per second
+  useEffect(() => {
+    if (resendCountdown <= 0) return;
+    const timer = setTimeout(() => setResendCountdown((s) => s - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendCountdown]);
+
+  // Ask the API for a fresh code (server enforces the same cooldown)
+  const handleResendCode = async () => {
+    setIsResending(true);
+    try {
+      const response = await axios.post<ApiResponse>(
+        '/api/resend-verification-code',
+        { username: params.username }
+      );
+
+      toast({
+        title: 'Code Sent',
+        description: response.data.message,
+      });
+      setResendCountdown(
+        response.data.retryAfterSeconds ?? VERIFY_CODE_RESEND_COOLDOWN_SECONDS
+      );
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      toast({
+        title: 'Could Not Resend Code',
+        description:
+          axiosError.response?.data.message ??
+          'An error occurred. Please try again.',
+        variant: 'destructive',
+      });
+      // On 429 the server tells us how long is left
+      if (axiosError.response?.data.retryAfterSeconds) {
+        setResendCountdown(axiosError.response.data.retryAfterSeconds);
+      }
+    } finally {
+      setIsResending(false);
+    }
+  };
+
   // Submit handler
   const onSubmit = async (data: z.infer<typeof verifySchema>) => {
     try {
@@ -88,6 +138,20 @@ export default function VerifyAccount() {
             <Button type="submit">Verify</Button>
           </form>
         </Form>
+
+        {/* Resend code */}
+        <div className="text-center">
+          <p className="mb-2 text-sm">Didn&apos;t get a code, or did it expire?</p>
+          <Button
+            variant="outline"
+            onClick={handleResendCode}
+            disabled={isResending || resendCountdown > 0}
+          >
+            {resendCountdown > 0
+              ? `Resend code in ${resendCountdown}s`
+              : 'Resend code'}
+          </Button>
+        </div>
       </div>
     </div>
   );
@@ -109,4 +173,5 @@ export default function VerifyAccount() {
 // 3. Form is validated → API call is made
 // 4. On success → Toast → Redirect to sign-in
 // 5. On failure → Toast with error message
+// 6. "Resend code" unlocks after a cooldown countdown and emails a fresh code
 //
@@ -8,70 +8,105 @@ import dbConnect from '@/lib/dbConnect';
 import UserModel from '@/model/User';
 // Import NextAuth's User type for better type safety
 import { User } from 'next-auth';
+// Validation for the settings body
+import { AcceptMessageSchema } from '@/schemas/acceptMessageSchema';
+import { validatedHandler } from '@/lib/validatedHandler';
 
-export async function POST(request: Request) {
-  // Connect to the MongoDB database
-  await dbConnect();
+export const POST = validatedHandler(
+  { body: AcceptMessageSchema },
+  async (request, { body }) => {
+    // Connect to the MongoDB database
+    await dbConnect();
 
-  // Get the currently authenticated session (server-side)
-  // getServerSession -> to get currently logged-in user . It requires authOptions 
-  const session = await getServerSession(authOptions);
+    // Get the currently authenticated session (server-side)
+    // getServerSession -> to get currently logged-in user . It requires authOptions 
+    const session = await getServerSession(authOptions);
 
-  // Extract user object from session (Options)
-  const user: User = session?.user;
-
-  // If user is not authenticated, return 401 Unauthorized
-  if (!session || !session.user) {
-    return Response.json(
-      { success: false,
-        message: 'Not authenticated' },
-      { status: 401 }
-    );
-  }
+    // Extract user object from session (Options)
+    const user: User = session?.user;
 
-  // Extract the user ID from the session
-  const userId = user._id;
+    // If user is not authenticated, return 401 Unauthorized
+    if (!session || !session.user) {
+      return Response.json(
+        { success: false,
+          message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
 
-  // Get the new value of acceptMessages from the request body
-  const { acceptMessages } = await request.json();
+    // Extract the user ID from the session
+    const userId = user._id;
+
+    // New setting value(s) from the request body, already validated
+    const {
+      acceptMessages,
+      onlyVerifiedSenders,
+      requireApproval,
+      flaggedMessageAction,
+      acceptedCategories,
+      acceptSchedule,
+    } = body;
+
+    // Only update the settings that were actually sent
+    const update: Record<string, unknown> = {};
+    if (acceptMessages !== undefined) update.isAcceptingMessages = acceptMessages;
+    if (onlyVerifiedSenders !== undefined) {
+      update.onlyVerifiedSenders = onlyVerifiedSenders;
+    }
+    if (requireApproval !== undefined) update.requireApproval = requireApproval;
+    if (flaggedMessageAction !== undefined) {
+      update.flaggedMessageAction = flaggedMessageAction;
+    }
+    if (acceptedCategories !== undefined) {
+      update.acceptedCategories = acceptedCategories;
+    }
+    if (acceptSchedule !== undefined) {
+      // Cleared dates are left out so the fields are removed
+      update.acceptSchedule = {
+        opensAt: acceptSchedule.opensAt ?? undefined,
+        closesAt: acceptSchedule.closesAt ?? undefined,
+        weeklyWindows: acceptSchedule.weeklyWindows,
+      };
+    }
 
-  try {
-    // Find the user by ID and update their message preference
-    const updatedUser = await UserModel.findByIdAndUpdate(
-      userId,
-      { isAcceptingMessages: acceptMessages }, // new value
-      { new: true } // return the updated document
-    );
+    try {
+      // Find the user by ID and update their message preference
+      const updatedUser = await UserModel.findByIdAndUpdate(
+        userId,
+        update, // new value(s)
+        { new: true } // return the updated document
+      );
 
-    // If user not found, respond with 404
-    if (!updatedUser) {
+      // If user not found, respond with 404
+      if (!updatedUser) {
+        return Response.json(
+          {
+            success: false,
+            message: 'Unable to find user to update message acceptance status',
+          },
+          { status: 404 }
+        );
+      }
+
+      // Success: return confirmation and the updated user
       return Response.json(
         {
-          success: false,
-          message: 'Unable to find user to update message acceptance status',
+          success: true,
+          message: 'Message acceptance status updated successfully',
+          updatedUser,
         },
-        { status: 404 }
+        { status: 200 }
+      );
+    } catch (error) {
+      // Log and respond to server-side errors
+      console.error('Error updating message acceptance status:', error);
+      return Response.json(
+        { success: false, message: 'Error updating message acceptance status' },
+        { status: 500 }
       );
     }
-
-    // Success: return confirmation and the updated user
-    return Response.json(
-      {
-        success: true,
-        message: 'Message acceptance status updated successfully',
-        updatedUser,
-      },
-      { status: 200 }
-    );
-  } catch (error) {
-    // Log and respond to server-side errors
-    console.error('Error updating message acceptance status:', error);
-    return Response.json(
-      { success: false, message: 'Error updating message acceptance status' },
-      { status: 500 }
-    );
   }
-}
+);
 
 export async function GET(request: Request) {
   // Connect to the MongoDB database
@@ -106,6 +141,12 @@ export async function GET(request: Request) {
       {
         success: true,
         isAcceptingMessages: foundUser.isAcceptingMessages,
+        onlyVerifiedSenders: foundUser.onlyVerifiedSenders,
+        requireApproval: foundUser.requireApproval,
+        flaggedMessageAction: foundUser.flaggedMessageAction,
+        acceptedCategories: foundUser.acceptedCategories,
+        acceptSchedule: foundUser.acceptSchedule,
+        isCampusVerified: foundUser.isCampusVerified,
       },
       { status: 200 }
     );
@@ -124,9 +165,12 @@ export async function GET(request: Request) {
  * ─── REVISE LATER (THEORY + FLOW + EXTRAS) ─────────────────────────────────────
  * 
  * 📌 THEORY:
- * - These handlers manage a user's "message preference" setting.
- * - The POST request updates the value (`isAcceptingMessages`) in the DB.
- * - The GET request reads and returns the current status.
+ * - These handlers manage a user's "message preference" settings.
+ * - The POST request updates `isAcceptingMessages`, `onlyVerifiedSenders`,
+ *   `requireApproval`, `flaggedMessageAction` (block / hold / blur) and/or
+ *   `acceptedCategories` (topics senders may pick) and/or `acceptSchedule`
+ *   (open/close dates and weekly IST windows) in the DB.
+ * - The GET request reads and returns the current settings (plus the campus badge).
  * - Both routes are protected: only logged-in users can access them (via NextAuth).
  * 
  * 🔁 FLOW:
@@ -134,7 +178,7 @@ export async function GET(request: Request) {
  * 1. Connect to DB.
  * 2. Get server session using NextAuth.
  * 3. Ensure user is authenticated.
- * 4. Parse `acceptMessages` from request body.
+ * 4. Validate the settings from request body (`AcceptMessageSchema`).
  * 5. Find user by ID and update their setting.
  * 6. Return updated user or appropriate error.
  * 
@@ -151,6 +195,5 @@ export async function GET(request: Request) {
  * - Consider using PATCH instead of POST for partial updates like this.
  * - Add test cases: unauthenticated user, user not found, invalid input.
  * - Rate-limit the POST route to prevent spam toggling.
- * - Validate the incoming `acceptMessages` value (must be boolean).
  * 
  */
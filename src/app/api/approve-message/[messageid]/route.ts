@@ -0,0 +1,55 @@
+import MessageModel from '@/model/Message';
+import { getServerSession } from 'next-auth/next';
+import dbConnect from '@/lib/dbConnect';
+import { User } from 'next-auth';
+import { authOptions } from '../../auth/[...nextauth]/options';
+import { validatedHandler } from '@/lib/validatedHandler';
+import { messageIdParamsSchema } from '@/schemas/messageSchema';
+
+// Moves a pending (or moderation-held) message into the inbox. Flagged
+// messages stay flagged, so the dashboard keeps them blurred until revealed.
+export const POST = validatedHandler(
+  { params: messageIdParamsSchema },
+  async (request, { params }) => {
+    const messageId = params.messageid;
+    await dbConnect();
+    const session = await getServerSession(authOptions);
+    const _user: User = session?.user;
+    if (!session || !_user) {
+      return Response.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    try {
+      const updateResult = await MessageModel.updateOne(
+        {
+          _id: messageId,
+          recipient: _user._id,
+          status: { $in: ['pending', 'held'] },
+          deletedAt: null,
+        },
+        { status: 'accepted' }
+      );
+
+      if (updateResult.modifiedCount === 0) {
+        return Response.json(
+          { message: 'Message not found or not pending', success: false },
+          { status: 404 }
+        );
+      }
+
+      return Response.json(
+        { message: 'Message approved', success: true },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error('Error approving message:', error);
+      return Response.json(
+        { message: 'Error approving message', success: false },
+        { status: 500 }
+      );
+    }
+  }
+);
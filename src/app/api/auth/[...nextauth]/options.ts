@@ -51,6 +51,7 @@ export const authOptions: NextAuthOptions = {
         token._id = user._id?.toString(); // Convert ObjectId to string
         token.isVerified = user.isVerified;
         token.isAcceptingMessages = user.isAcceptingMessages;
+        token.isCampusVerified = user.isCampusVerified;
         token.username = user.username;
       }
       return token;
@@ -60,6 +61,7 @@ export const authOptions: NextAuthOptions = {
         session.user._id = token._id;
         session.user.isVerified = token.isVerified;
         session.user.isAcceptingMessages = token.isAcceptingMessages;
+        session.user.isCampusVerified = token.isCampusVerified;
         session.user.username = token.username;
       }
       return session;
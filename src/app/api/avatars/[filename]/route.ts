@@ -0,0 +1,21 @@
+import { readAvatar } from '@/lib/avatarStorage';
+
+// Serves an uploaded avatar. Each upload gets a new file name, so the
+// response never changes and can be cached for good.
+export async function GET(
+  request: Request,
+  { params }: { params: { filename: string } }
+) {
+  const avatar = await readAvatar(params.filename);
+  if (!avatar) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  return new Response(avatar.data, {
+    headers: {
+      'Content-Type': avatar.contentType,
+      'Cache-Control': 'public, max-age=31536000, immutable',
+      'X-Content-Type-Options': 'nosniff',
+    },
+  });
+}
@@ -0,0 +1,137 @@
+import mongoose from 'mongoose';
+import MessageModel, { messageStatusFilter } from '@/model/Message';
+import { getServerSession } from 'next-auth/next';
+import dbConnect from '@/lib/dbConnect';
+import { User } from 'next-auth';
+import { authOptions } from '../auth/[...nextauth]/options';
+import { validatedHandler } from '@/lib/validatedHandler';
+import { buildMessageFilter } from '@/lib/messageFilter';
+import { getTrashPurgeDate } from '@/lib/trash';
+import {
+  BatchMessageAction,
+  batchMessagesSchema,
+  MAX_BATCH_MESSAGES,
+} from '@/schemas/batchMessagesSchema';
+
+const ACTION_LABELS: Record<BatchMessageAction, string> = {
+  delete: 'moved to Trash',
+  archive: 'archived',
+  markRead: 'marked as read',
+};
+
+// Which messages an action applies to, and what it changes. Anything else in
+// the selection is reported back as a failed item. `pending` matches the
+// messages the action hasn't changed yet.
+function getActionQuery(action: BatchMessageAction) {
+  switch (action) {
+    case 'delete': {
+      const now = new Date();
+      return {
+        condition: { deletedAt: null },
+        pending: {},
+        update: { deletedAt: now, purgeAt: getTrashPurgeDate(now) },
+      };
+    }
+    case 'archive':
+      return {
+        condition: { status: messageStatusFilter('accepted'), deletedAt: null },
+        pending: { isArchived: { $ne: true } },
+        update: { isArchived: true },
+      };
+    case 'markRead':
+      return {
+        condition: { status: messageStatusFilter('accepted'), deletedAt: null },
+        pending: { isRead: { $ne: true } },
+        update: { isRead: true },
+      };
+  }
+}
+
+// Applies one bulk action from the dashboard and reports the outcome for
+// every selected message
+export const POST = validatedHandler(
+  { body: batchMessagesSchema },
+  async (request, { body }) => {
+    await dbConnect();
+    const session = await getServerSession(authOptions);
+    const _user: User = session?.user;
+    if (!session || !_user) {
+      return Response.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const userId = new mongoose.Types.ObjectId(_user._id);
+    const { action, messageIds, filter } = body;
+
+    try {
+      const { condition, pending, update } = getActionQuery(action);
+      const scope = { recipient: userId, ...condition };
+
+      // "Select all matching" is resolved here, newest first, one batch at a
+      // time. Only messages the action still changes are picked, so running it
+      // again moves on to the next batch instead of repeating this one.
+      let selectedIds: string[];
+      let hasMore = false;
+      if (filter) {
+        const matching = await MessageModel.find({
+          $and: [buildMessageFilter(userId, filter), scope, pending],
+        })
+          .sort({ createdAt: -1, _id: -1 })
+          .limit(MAX_BATCH_MESSAGES + 1)
+          .select('_id')
+          .lean();
+        hasMore = matching.length > MAX_BATCH_MESSAGES;
+        selectedIds = matching
+          .slice(0, MAX_BATCH_MESSAGES)
+          .map((message) => message._id.toString());
+      } else {
+        selectedIds = messageIds ?? [];
+      }
+
+      const eligible = await MessageModel.find({
+        _id: { $in: selectedIds },
+        ...scope,
+      })
+        .select('_id')
+        .lean();
+      const eligibleIds = new Set(
+        eligible.map((message) => message._id.toString())
+      );
+
+      if (eligibleIds.size > 0) {
+        await MessageModel.updateMany(
+          { _id: { $in: Array.from(eligibleIds) }, ...scope },
+          update
+        );
+      }
+
+      const results = selectedIds.map((messageId) =>
+        eligibleIds.has(messageId)
+          ? { messageId, success: true }
+          : {
+              messageId,
+              success: false,
+              message: 'Message not found or action does not apply',
+            }
+      );
+
+      return Response.json(
+        {
+          success: true,
+          message: `${eligibleIds.size} of ${selectedIds.length} messages ${ACTION_LABELS[action]}`,
+          results,
+          hasMore,
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error('Error running batch action:', error);
+      return Response.json(
+        { message: 'Error updating messages', success: false },
+        { status: 500 }
+      );
+    }
+  }
+);
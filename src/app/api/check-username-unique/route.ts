@@ -2,102 +2,64 @@
 import dbConnect from '@/lib/dbConnect';
 // Import Mongoose User model
 import UserModel from '@/model/User';
-// Import Zod for schema validation
-import { z } from 'zod';
-// Import username validation rule from signup schema
-import { usernameValidation } from '@/schemas/signUpSchema';
-
-// Define a Zod schema for validating query params (only `username` is expected)
-const UsernameQuerySchema = z.object({
-  username: usernameValidation, // Reuses existing validation rule
-});
+// Import the shared username schema ({ username }) from signup schema
+import { usernameSchema } from '@/schemas/signUpSchema';
+// Wraps the handler with query validation
+import { validatedHandler } from '@/lib/validatedHandler';
 
 // Exporting an async GET handler function to check username availability
-export async function GET(request: Request) {
-  // Ensure database connection is established before proceeding
-  await dbConnect();
-
-  try {
-    // Parse the URL and extract query parameters .
-    //  Aur bhi paramenter ho sakte h
-    const { searchParams } = new URL(request.url);
-
-    // Get the 'username' query param from the URL
-    const queryParams = {
-      username: searchParams.get('username'), // May return null if not present
-    };
+export const GET = validatedHandler(
+  { query: usernameSchema },
+  async (request, { query }) => {
+    // Ensure database connection is established before proceeding
+    await dbConnect();
 
-    // Validate the query parameters using Zod schema
-    // safeParse -> agar schema sahi hoga toh pass
-    const result = UsernameQuerySchema.safeParse(queryParams);
+    try {
+      // The `username` query param has already been validated by validatedHandler
+      // against usernameSchema (length, allowed characters). Invalid input never
+      // reaches this point: the wrapper answers 400 with field-level errors.
+      const { username } = query;
 
-    // If validation fails, return a 400 Bad Request with error message
-    if (!result.success) {
-      // Extract specific error messages for the 'username' field, if any
-      //result.error.format() -> Isme saare error hote h but we want usnername ka error
+      // Look for a user in the "database" with the same username and verified status
+      const existingVerifiedUser = await UserModel.findOne({
+        username,
+        isVerified: true, // Only check for verified users
+      });
 
-      const usernameErrors = result.error.format()
-      .username?._errors || [];
+      // If user exists and is verified, respond that username is taken
+      if (existingVerifiedUser) {
+        return Response.json(
+          {
+            success: false,
+            message: 'Username is already taken', // User exists with this username
+          },
+          { status: 200 } // 200 OK, because the request itself is valid
+        );
+      }
 
-      // Return validation error(s) or fallback message
-
-      
+      // If no such user is found, return success (username is available)
       return Response.json(
         {
-          success: false,
-          message:
-          
-            usernameErrors?.length > 0
-              ? usernameErrors.join(', ') // Display detailed validation errors
-              : 'Invalid query parameters', // Generic fallback error
+          success: true,
+          message: 'Username is unique', // Good to go!
         },
-        { status: 400 } // Bad request
+        { status: 200 } // 200 OK
       );
-    }
-
-    // Destructure the validated data from result
-    // console.log(result) = .data
-    const { username } = result.data;
-
-    // Look for a user in the "database" with the same username and verified status
-    const existingVerifiedUser = await UserModel.findOne({
-      username,
-      isVerified: true, // Only check for verified users
-    });
+    } catch (error) {
+      // Log error for debugging
+      console.error('Error checking username:', error);
 
-    // If user exists and is verified, respond that username is taken
-    if (existingVerifiedUser) {
+      // Return internal server error
       return Response.json(
         {
           success: false,
-          message: 'Username is already taken', // User exists with this username
+          message: 'Error checking username', // Something went wrong
         },
-        { status: 200 } // 200 OK, because the request itself is valid
+        { status: 500 } // Internal server error
       );
     }
-
-    // If no such user is found, return success (username is available)
-    return Response.json(
-      {
-        success: true,
-        message: 'Username is unique', // Good to go!
-      },
-      { status: 200 } // 200 OK
-    );
-  } catch (error) {
-    // Log error for debugging
-    console.error('Error checking username:', error);
-
-    // Return internal server error
-    return Response.json(
-      {
-        success: false,
-        message: 'Error checking username', // Something went wrong
-      },
-      { status: 500 } // Internal server error
-    );
   }
-}
+);
 
 /**
  * ─── REVISE LATER (THEORY + FLOW + EXTRAS) ─────────────────────────────────────
@@ -110,9 +72,9 @@ export async function GET(request: Request) {
  * 
  * 🔁 FLOW:
  * 1. Connect to MongoDB.
- * 2. Extract the `username` from the request's query string.
- * 3. Validate the `username` using Zod schema (which might include regex, length, etc.).
- * 4. If invalid → return 400 with a message.
+ * 2. `validatedHandler` extracts the `username` from the query string.
+ * 3. It validates the `username` using `usernameSchema` (regex, length, etc.).
+ * 4. If invalid → it returns 400 with a message and field errors.
  * 5. If valid → search MongoDB for a verified user with the same username.
  * 6. If found → return "Username is taken".
  * 7. If not found → return "Username is unique".
@@ -1,48 +1,53 @@
-import UserModel from '@/model/User';
+import MessageModel from '@/model/Message';
 import { getServerSession } from 'next-auth/next';
 import dbConnect from '@/lib/dbConnect';
 import { User } from 'next-auth';
-import { Message } from '@/model/User';
 import { NextRequest } from 'next/server';
 import { authOptions } from '../../auth/[...nextauth]/options';
+import { validatedHandler } from '@/lib/validatedHandler';
+import { messageIdParamsSchema } from '@/schemas/messageSchema';
+import { getTrashPurgeDate } from '@/lib/trash';
 
-export async function DELETE(
-  request: Request,
-  { params }: { params: { messageid: string } }
-) {
-  const messageId = params.messageid;
-  await dbConnect();
-  const session = await getServerSession(authOptions);
-  const _user: User = session?.user;
-  if (!session || !_user) {
-    return Response.json(
-      { success: false, message: 'Not authenticated' },
-      { status: 401 }
-    );
-  }
+export const DELETE = validatedHandler(
+  { params: messageIdParamsSchema },
+  async (request, { params }) => {
+    const messageId = params.messageid;
+    await dbConnect();
+    const session = await getServerSession(authOptions);
+    const _user: User = session?.user;
+    if (!session || !_user) {
+      return Response.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
 
-  try {
-    const updateResult = await UserModel.updateOne(
-      { _id: _user._id },
-      { $pull: { messages: { _id: messageId } } }
-    );
+    try {
+      // Moves the message to Trash. Scoped to the signed-in recipient so nobody
+      // can remove another user's message; MongoDB purges it after `purgeAt`.
+      const now = new Date();
+      const updateResult = await MessageModel.updateOne(
+        { _id: messageId, recipient: _user._id, deletedAt: null },
+        { deletedAt: now, purgeAt: getTrashPurgeDate(now) }
+      );
 
-    if (updateResult.modifiedCount === 0) {
+      if (updateResult.modifiedCount === 0) {
+        return Response.json(
+          { message: 'Message not found or already deleted', success: false },
+          { status: 404 }
+        );
+      }
+
+      return Response.json(
+        { message: 'Message moved to Trash', success: true },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error('Error deleting message:', error);
       return Response.json(
-        { message: 'Message not found or already deleted', success: false },
-        { status: 404 }
+        { message: 'Error deleting message', success: false },
+        { status: 500 }
       );
     }
-
-    return Response.json(
-      { message: 'Message deleted', success: true },
-      { status: 200 }
-    );
-  } catch (error) {
-    console.error('Error deleting message:', error);
-    return Response.json(
-      { message: 'Error deleting message', success: false },
-      { status: 500 }
-    );
   }
-}
+);
@@ -0,0 +1,52 @@
+import MessageModel from '@/model/Message';
+import { getServerSession } from 'next-auth/next';
+import dbConnect from '@/lib/dbConnect';
+import { User } from 'next-auth';
+import { authOptions } from '../../auth/[...nextauth]/options';
+import { validatedHandler } from '@/lib/validatedHandler';
+import { messageIdParamsSchema } from '@/schemas/messageSchema';
+
+// Drops a message that is still waiting for review. Accepted messages
+// go through delete-message instead.
+export const DELETE = validatedHandler(
+  { params: messageIdParamsSchema },
+  async (request, { params }) => {
+    const messageId = params.messageid;
+    await dbConnect();
+    const session = await getServerSession(authOptions);
+    const _user: User = session?.user;
+    if (!session || !_user) {
+      return Response.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    try {
+      const deleteResult = await MessageModel.deleteOne({
+        _id: messageId,
+        recipient: _user._id,
+        status: { $in: ['pending', 'held'] },
+        deletedAt: null, // messages in Trash are only removed by purge
+      });
+
+      if (deleteResult.deletedCount === 0) {
+        return Response.json(
+          { message: 'Message not found or not pending', success: false },
+          { status: 404 }
+        );
+      }
+
+      return Response.json(
+        { message: 'Message discarded', success: true },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error('Error discarding message:', error);
+      return Response.json(
+        { message: 'Error discarding message', success: false },
+        { status: 500 }
+      );
+    }
+  }
+);
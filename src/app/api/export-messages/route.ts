@@ -0,0 +1,89 @@
+import mongoose from 'mongoose';
+import dayjs from 'dayjs';
+import MessageModel from '@/model/Message';
+import { getServerSession } from 'next-auth/next';
+import dbConnect from '@/lib/dbConnect';
+import { User } from 'next-auth';
+import { authOptions } from '../auth/[...nextauth]/options';
+import { validatedHandler } from '@/lib/validatedHandler';
+import { buildMessageFilter } from '@/lib/messageFilter';
+import { exportMessagesQuerySchema } from '@/schemas/messageQuerySchema';
+import {
+  toCsvHeader,
+  toCsvRow,
+  toExportedMessage,
+} from '@/lib/messageExport';
+
+// Downloads the signed-in user's messages as CSV or JSON, with the same
+// filters as the dashboard. Messages are streamed from a MongoDB cursor one
+// at a time, so a large inbox is never held in memory.
+export const GET = validatedHandler(
+  { query: exportMessagesQuerySchema },
+  async (request, { query }) => {
+    await dbConnect();
+    const session = await getServerSession(authOptions);
+    const _user: User = session?.user;
+    if (!session || !_user) {
+      return Response.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { format, ...filterOptions } = query;
+    const cursor = MessageModel.find(
+      buildMessageFilter(new mongoose.Types.ObjectId(_user._id), filterOptions)
+    )
+      .sort({ createdAt: -1, _id: -1 })
+      .cursor();
+
+    const encoder = new TextEncoder();
+    let isFirst = true;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const opening = format === 'csv' ? toCsvHeader() : '[';
+        controller.enqueue(encoder.encode(opening));
+      },
+      // Pull-based, so the next document is only read when the client is ready
+      async pull(controller) {
+        try {
+          const message = await cursor.next();
+          if (!message) {
+            if (format === 'json') controller.enqueue(encoder.encode(']'));
+            controller.close();
+            return;
+          }
+
+          const exported = toExportedMessage(message);
+          const chunk =
+            format === 'csv'
+              ? toCsvRow(exported)
+              : `${isFirst ? '' : ','}${JSON.stringify(exported)}`;
+          isFirst = false;
+          controller.enqueue(encoder.encode(chunk));
+        } catch (error) {
+          console.error('Error exporting messages:', error);
+          controller.error(error);
+          await cursor.close();
+        }
+      },
+      async cancel() {
+        await cursor.close();
+      },
+    });
+
+    const filename = `messages-${dayjs().format('YYYY-MM-DD')}.${format}`;
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        'Content-Type':
+          format === 'csv'
+            ? 'text/csv; charset=utf-8'
+            : 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  }
+);
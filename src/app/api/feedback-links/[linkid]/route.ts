@@ -0,0 +1,113 @@
+import FeedbackLinkModel from '@/model/FeedbackLink';
+import { getServerSession } from 'next-auth/next';
+import dbConnect from '@/lib/dbConnect';
+import { User } from 'next-auth';
+import { authOptions } from '../../auth/[...nextauth]/options';
+import { validatedHandler } from '@/lib/validatedHandler';
+import {
+  feedbackLinkParamsSchema,
+  updateFeedbackLinkSchema,
+} from '@/schemas/feedbackLinkSchema';
+import { isDuplicateKeyError } from '@/lib/mongoErrors';
+
+// Partial update; a null category or expiry removes that setting
+export const PATCH = validatedHandler(
+  { params: feedbackLinkParamsSchema, body: updateFeedbackLinkSchema },
+  async (request, { params, body }) => {
+    await dbConnect();
+    const session = await getServerSession(authOptions);
+    const _user: User = session?.user;
+    if (!session || !_user) {
+      return Response.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const $set: Record<string, unknown> = {};
+    const $unset: Record<string, ''> = {};
+    for (const [field, value] of Object.entries(body)) {
+      if (value === undefined) continue;
+      if (value === null) $unset[field] = '';
+      else $set[field] = value;
+    }
+
+    try {
+      const feedbackLink = await FeedbackLinkModel.findOneAndUpdate(
+        { _id: params.linkid, owner: _user._id },
+        { $set, $unset },
+        { new: true }
+      );
+
+      if (!feedbackLink) {
+        return Response.json(
+          { message: 'Feedback link not found', success: false },
+          { status: 404 }
+        );
+      }
+
+      return Response.json(
+        { message: 'Feedback link updated', success: true, feedbackLink },
+        { status: 200 }
+      );
+    } catch (error) {
+      if (isDuplicateKeyError(error)) {
+        return Response.json(
+          {
+            message: 'You already have a link with this slug',
+            success: false,
+            errors: { slug: ['You already have a link with this slug'] },
+          },
+          { status: 409 }
+        );
+      }
+      console.error('Error updating feedback link:', error);
+      return Response.json(
+        { message: 'Error updating feedback link', success: false },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+// Removes the link itself. Messages that came through it keep their tag,
+// so they stay in the inbox like any other message.
+export const DELETE = validatedHandler(
+  { params: feedbackLinkParamsSchema },
+  async (request, { params }) => {
+    await dbConnect();
+    const session = await getServerSession(authOptions);
+    const _user: User = session?.user;
+    if (!session || !_user) {
+      return Response.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    try {
+      const deleteResult = await FeedbackLinkModel.deleteOne({
+        _id: params.linkid,
+        owner: _user._id,
+      });
+
+      if (deleteResult.deletedCount === 0) {
+        return Response.json(
+          { message: 'Feedback link not found', success: false },
+          { status: 404 }
+        );
+      }
+
+      return Response.json(
+        { message: 'Feedback link deleted', success: true },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error('Error deleting feedback link:', error);
+      return Response.json(
+        { message: 'Error deleting feedback link', success: false },
+        { status: 500 }
+      );
+    }
+  }
+);
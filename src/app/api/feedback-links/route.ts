@@ -0,0 +1,116 @@
+import mongoose from 'mongoose';
+import FeedbackLinkModel, { MAX_FEEDBACK_LINKS } from '@/model/FeedbackLink';
+import MessageModel from '@/model/Message';
+import { getServerSession } from 'next-auth/next';
+import dbConnect from '@/lib/dbConnect';
+import { User } from 'next-auth';
+import { authOptions } from '../auth/[...nextauth]/options';
+import { validatedHandler } from '@/lib/validatedHandler';
+import { createFeedbackLinkSchema } from '@/schemas/feedbackLinkSchema';
+import { isDuplicateKeyError } from '@/lib/mongoErrors';
+
+// The signed-in user's named links, newest first, with how many messages
+// (outside Trash) arrived through each
+export async function GET(request: Request) {
+  await dbConnect();
+  const session = await getServerSession(authOptions);
+  const _user: User = session?.user;
+  if (!session || !_user) {
+    return Response.json(
+      { success: false, message: 'Not authenticated' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const userId = new mongoose.Types.ObjectId(_user._id);
+    const [links, counts] = await Promise.all([
+      FeedbackLinkModel.find({ owner: userId }).sort({ createdAt: -1 }).lean(),
+      MessageModel.aggregate<{ _id: mongoose.Types.ObjectId; count: number }>([
+        { $match: { recipient: userId, link: { $ne: null }, deletedAt: null } },
+        { $group: { _id: '$link', count: { $sum: 1 } } },
+      ]),
+    ]);
+
+    const countByLink = new Map(
+      counts.map(({ _id, count }) => [_id.toString(), count])
+    );
+
+    return Response.json(
+      {
+        success: true,
+        feedbackLinks: links.map((link) => ({
+          ...link,
+          messageCount: countByLink.get(link._id.toString()) ?? 0,
+        })),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching feedback links:', error);
+    return Response.json(
+      { message: 'Error fetching feedback links', success: false },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = validatedHandler(
+  { body: createFeedbackLinkSchema },
+  async (request, { body }) => {
+    await dbConnect();
+    const session = await getServerSession(authOptions);
+    const _user: User = session?.user;
+    if (!session || !_user) {
+      return Response.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    try {
+      const linkCount = await FeedbackLinkModel.countDocuments({
+        owner: _user._id,
+      });
+      if (linkCount >= MAX_FEEDBACK_LINKS) {
+        return Response.json(
+          {
+            message: `You can have up to ${MAX_FEEDBACK_LINKS} feedback links. Delete one first.`,
+            success: false,
+          },
+          { status: 409 }
+        );
+      }
+
+      const { category, expiresAt, ...fields } = body;
+      const feedbackLink = await FeedbackLinkModel.create({
+        ...fields,
+        owner: _user._id,
+        // null and undefined both mean "not set"
+        category: category ?? undefined,
+        expiresAt: expiresAt ?? undefined,
+      });
+
+      return Response.json(
+        { message: 'Feedback link created', success: true, feedbackLink },
+        { status: 201 }
+      );
+    } catch (error) {
+      if (isDuplicateKeyError(error)) {
+        return Response.json(
+          {
+            message: 'You already have a link with this slug',
+            success: false,
+            errors: { slug: ['You already have a link with this slug'] },
+          },
+          { status: 409 }
+        );
+      }
+      console.error('Error creating feedback link:', error);
+      return Response.json(
+        { message: 'Error creating feedback link', success: false },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,141 @@
+import mongoose from 'mongoose';
+import dbConnect from '@/lib/dbConnect';
+import UserModel from '@/model/User';
+import { validatedHandler } from '@/lib/validatedHandler';
+import { forgotPasswordSchema } from '@/schemas/forgotPasswordSchema';
+import { generateOneTimeCode, hashOneTimeCode } from '@/lib/oneTimeCode';
+import { sendPasswordResetEmail } from '@/helpers/sendPasswordResetEmail';
+import {
+  createRateLimiter,
+  getClientIpHash,
+  RateLimitResult,
+} from '@/lib/rateLimit';
+
+const RESET_CODE_TTL_MINUTES = 15;
+// Per-account wait between reset emails
+const RESET_CODE_RESEND_COOLDOWN_SECONDS = 60;
+
+// Keeps the route from being used to flood an inbox, from one address or many
+const forgotPasswordIpLimiter = createRateLimiter({
+  name: 'forgot-password:ip',
+  limit: 10,
+  windowMs: 15 * 60 * 1000,
+});
+const forgotPasswordEmailLimiter = createRateLimiter({
+  name: 'forgot-password:email',
+  limit: 5,
+  windowMs: 60 * 60 * 1000,
+});
+
+// Same response whether or not the email is registered, so this route
+// can't be used to find out who has an account
+const GENERIC_RESPONSE = {
+  success: true,
+  message:
+    'If an account exists for this email, a password reset code has been sent.',
+};
+
+function tooManyRequests({ retryAfterSeconds }: RateLimitResult) {
+  return Response.json(
+    {
+      success: false,
+      message: 'Too many reset requests. Please try again later.',
+      retryAfterSeconds,
+    },
+    {
+      status: 429,
+      headers: { 'Retry-After': retryAfterSeconds.toString() },
+    }
+  );
+}
+
+// Issues a new code and emails it, unless one was sent within the cooldown.
+// The cooldown check and the new code are one conditional update, so
+// parallel requests can't each send an email or reset the guess counter.
+async function issueResetCode(userId: mongoose.Types.ObjectId) {
+  const now = Date.now();
+  const resetCode = generateOneTimeCode();
+  const user = await UserModel.findOneAndUpdate(
+    {
+      _id: userId,
+      $or: [
+        { resetCodeSentAt: null },
+        {
+          resetCodeSentAt: {
+            $lte: new Date(now - RESET_CODE_RESEND_COOLDOWN_SECONDS * 1000),
+          },
+        },
+      ],
+    },
+    {
+      // A new code replaces any earlier one, so only the latest email works,
+      // and gets a fresh set of guesses
+      $set: {
+        resetPasswordCode: hashOneTimeCode(resetCode),
+        resetPasswordExpiry: new Date(
+          now + RESET_CODE_TTL_MINUTES * 60 * 1000
+        ),
+        resetCodeSentAt: new Date(now),
+        resetPasswordAttempts: 0,
+      },
+    }
+  );
+  if (!user) return;
+
+  const emailResponse = await sendPasswordResetEmail(
+    user.email,
+    user.username,
+    resetCode,
+    RESET_CODE_TTL_MINUTES
+  );
+  if (!emailResponse.success) {
+    console.error(
+      'Error sending password reset email:',
+      emailResponse.message
+    );
+  }
+}
+
+export const POST = validatedHandler(
+  { body: forgotPasswordSchema },
+  async (request, { body }) => {
+    await dbConnect();
+
+    try {
+      const { email } = body;
+
+      const ipLimit = await forgotPasswordIpLimiter.consume(
+        getClientIpHash(request)
+      );
+      if (!ipLimit.allowed) {
+        return tooManyRequests(ipLimit);
+      }
+      const emailLimit = await forgotPasswordEmailLimiter.consume(email);
+      if (!emailLimit.allowed) {
+        return tooManyRequests(emailLimit);
+      }
+
+      const user = await UserModel.findOne({ email }).select('_id');
+
+      // Issuing and sending happen after the response, so a registered email
+      // answers as fast as an unknown one. Failures are only logged: an error
+      // here, and not for unknown emails, would tell the caller the account exists.
+      if (user) {
+        issueResetCode(user._id).catch((error) => {
+          console.error('Error issuing password reset code:', error);
+        });
+      }
+
+      return Response.json(GENERIC_RESPONSE, { status: 200 });
+    } catch (error) {
+      console.error('Error requesting password reset:', error);
+      return Response.json(
+        {
+          success: false,
+          message: 'Error requesting password reset',
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
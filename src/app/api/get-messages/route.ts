@@ -1,7 +1,7 @@
 // Connect to MongoDB
 import dbConnect from '@/lib/dbConnect';
-// Mongoose user model
-import UserModel from '@/model/User';
+// Mongoose message model
+import MessageModel from '@/model/Message';
 // For creating ObjectId from string
 import mongoose from 'mongoose';
 // Type from NextAuth (for session user)
@@ -10,91 +10,128 @@ import { User } from 'next-auth';
 import { getServerSession } from 'next-auth/next';
 // NextAuth configuration
 import { authOptions } from '../auth/[...nextauth]/options';
+// Query validation (page size, date and category filters, cursor)
+import { messageQuerySchema } from '@/schemas/messageQuerySchema';
+import { validatedHandler } from '@/lib/validatedHandler';
+// Opaque pagination cursor helpers
+import {
+  decodeMessageCursor,
+  encodeMessageCursor,
+  messageCursorFilter,
+} from '@/lib/messageCursor';
+// Status / category / date filters shared with search
+import { buildMessageFilter } from '@/lib/messageFilter';
 
-export async function GET(request: Request) {
-  // Connect to the database
-  await dbConnect();
+export const GET = validatedHandler(
+  { query: messageQuerySchema },
+  async (request, { query }) => {
+    // Connect to the database
+    await dbConnect();
 
-  // Get the user session
-  // In NextAuth.js, a session is an object that represents the currently logged-in user.
-  const session = await getServerSession(authOptions);
+    // Get the user session
+    // In NextAuth.js, a session is an object that represents the currently logged-in user.
+    const session = await getServerSession(authOptions);
 
-  // Extract the user object from 0
-  const _user: User = session?.user;
+    // Extract the user object from 0
+    const _user: User = session?.user;
 
-  // If user is not authenticated, return 401
-  if (!session || !_user) {
-    return Response.json(
-      { success: false, message: 'Not authenticated' },
-      { status: 401 }
-    );
-  }
+    // If user is not authenticated, return 401
+    if (!session || !_user) {
+      return Response.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    // Convert the user ID string into a MongoDB ObjectId
+    const userId = new mongoose.Types.ObjectId(_user._id);
+
+    // Pagination/filter params, already validated against messageQuerySchema
+    const { status, category, link, cursor, limit, before, after } = query;
+
+    // Build the filter: always scoped to the signed-in recipient
+    const filter = buildMessageFilter(userId, {
+      status,
+      category,
+      link,
+      before,
+      after,
+    });
+
+    if (cursor) {
+      const position = decodeMessageCursor(cursor);
+      if (!position) {
+        return Response.json(
+          { success: false, message: 'Invalid cursor' },
+          { status: 400 }
+        );
+      }
+
+      Object.assign(filter, messageCursorFilter(position));
+    }
 
-  // Convert the user ID string into a MongoDB ObjectId
-  const userId = new mongoose.Types.ObjectId(_user._id);
+    try {
+      // Fetch one extra message to know whether another page exists.
+      // Served by the { recipient, status, createdAt, _id } index.
+      const messages = await MessageModel.find(filter)
+        .sort({ createdAt: -1, _id: -1 })
+        .limit(limit + 1)
+        .exec();
 
-  try {
-    // In MongoDB, the Aggregation Pipeline is a powerful framework for transforming, filtering, and analyzing data.
-    // Aggregation pipeline to fetch and sort user's messages
-    const user = await UserModel.aggregate([
-      { $match: { _id: userId } },                  // Step 1: Match the user by ID
-      { $unwind: '$messages' },                     // Step 2: Flatten the messages array (one message per document)
-      { $sort: { 'messages.createdAt': -1 } },      // Step 3: Sort messages by creation date (most recent first)
-      { $group: { _id: '$_id', messages: { $push: '$messages' } } }, // Step 4: Re-group all messages into an array
-    ]).exec();
+      const hasMore = messages.length > limit;
+      const page = hasMore ? messages.slice(0, limit) : messages;
+      const last = page[page.length - 1];
+      const nextCursor = hasMore
+        ? encodeMessageCursor(last.createdAt, last._id.toString())
+        : null;
 
-    // If no user found or no messages
-    if (!user || user.length === 0) {
+      // Success: return one page of sorted messages (an empty board is not an error)
+      return Response.json(
+        { success: true, messages: page, nextCursor },
+        {
+          status: 200,
+        }
+      );
+    } catch (error) {
+      // Catch any unexpected errors and log
+      console.error('An unexpected error occurred:', error);
       return Response.json(
-        { message: 'User not found',
-          success: false },
-        { status: 404 }
+        { message: 'Internal server error', success: false },
+        { status: 500 }
       );
     }
-
-    // Success: return sorted messages
-    return Response.json(
-      { messages: user[0].messages },
-      {
-        status: 200,
-      }
-    );
-  } catch (error) {
-    // Catch any unexpected errors and log
-    console.error('An unexpected error occurred:', error);
-    return Response.json(
-      { message: 'Internal server error', success: false },
-      { status: 500 }
-    );
   }
-}
+);
 
 /**
  * ─── REVISE LATER (THEORY + FLOW + EXTRAS) ─────────────────────────────────────
  * 
  * 📌 THEORY:
- * - This endpoint fetches the authenticated user's messages, sorted by newest first.
- * - It uses a MongoDB Aggregation Pipeline to efficiently transform and retrieve data.
- * - Aggregation steps used:
- *    1. `$match`: Find the user by ID.
- *    2. `$unwind`: Break apart the `messages` array so we can sort individual messages.
- *    3. `$sort`: Sort all messages in descending order of `createdAt`.
- *    4. `$group`: Re-group messages under the user after sorting.
+ * - This endpoint fetches the authenticated user's messages, newest first, one page at a time.
+ * - Messages are stored in their own `messages` collection with a `recipient` reference,
+ *   so each page is a single indexed `find` on `{ recipient: 1, status: 1, createdAt: -1, _id: -1 }`.
+ * - Keyset (cursor) pagination: the cursor encodes the `createdAt` + `_id` of the last
+ *   message on the previous page, so new messages arriving never shift or duplicate results
+ *   (unlike `$skip`).
+ * 
+ * 🔎 QUERY PARAMS (all optional):
+ * - `status` → `accepted` (default, the inbox without archived messages), `starred`,
+ *   `archived` or `pending` (awaiting approval or held by moderation)
+ * - `category` → only messages filed under this topic (mess, hostel, ...)
+ * - `link` → only messages sent through this feedback link (its id)
+ * - `limit`  → page size (default 20, max 100)
+ * - `cursor` → `nextCursor` from the previous response
+ * - `before` / `after` → only messages created before / after this date (ISO string)
  * 
  * 🔁 FLOW:
  * 1. Connect to DB.
  * 2. Get server session to find the logged-in user.
- * 3. Convert user ID to ObjectId (required for aggregation match).
- * 4. Run aggregation pipeline to extract and sort messages.
- * 5. If user not found → return 404.
- * 6. If found → return sorted messages in response.
+ * 3. Validate query params with Zod (`validatedHandler`) → 400 with field errors.
+ * 4. Query `limit + 1` messages after the cursor, newest first.
+ * 5. Return the page plus `nextCursor` (null when there are no more messages).
  * 
  * 🧠 TIPS TO IMPROVE:
- * - Add pagination to avoid sending large message arrays (e.g., `$skip` + `$limit`).
- * - Move the aggregation logic to a model method (`UserModel.getSortedMessagesById()`).
  * - Add projection to exclude unnecessary fields.
  * - Add caching for frequent requests (Redis or edge cache).
- * - Add Zod validation if request includes params (e.g., pagination).
- * - Consider a fallback if `createdAt` is missing on older messages.
  * 
  */
@@ -0,0 +1,56 @@
+import MessageModel, { messageStatusFilter } from '@/model/Message';
+import { getServerSession } from 'next-auth/next';
+import dbConnect from '@/lib/dbConnect';
+import { User } from 'next-auth';
+import { authOptions } from '../../auth/[...nextauth]/options';
+import { validatedHandler } from '@/lib/validatedHandler';
+import { messageIdParamsSchema } from '@/schemas/messageSchema';
+import { messageFlagsSchema } from '@/schemas/messageFlagsSchema';
+
+// Sets the read, starred and/or archived flags of one inbox message
+export const POST = validatedHandler(
+  { params: messageIdParamsSchema, body: messageFlagsSchema },
+  async (request, { params, body }) => {
+    const messageId = params.messageid;
+    await dbConnect();
+    const session = await getServerSession(authOptions);
+    const _user: User = session?.user;
+    if (!session || !_user) {
+      return Response.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    try {
+      const updateResult = await MessageModel.updateOne(
+        {
+          _id: messageId,
+          recipient: _user._id,
+          status: messageStatusFilter('accepted'),
+          deletedAt: null,
+        },
+        { $set: body }
+      );
+
+      // matchedCount, not modifiedCount: setting a flag it already has is fine
+      if (updateResult.matchedCount === 0) {
+        return Response.json(
+          { message: 'Message not found', success: false },
+          { status: 404 }
+        );
+      }
+
+      return Response.json(
+        { message: 'Message updated', success: true },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error('Error updating message flags:', error);
+      return Response.json(
+        { message: 'Error updating message', success: false },
+        { status: 500 }
+      );
+    }
+  }
+);
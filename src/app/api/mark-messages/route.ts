@@ -0,0 +1,52 @@
+import MessageModel, { messageStatusFilter } from '@/model/Message';
+import { getServerSession } from 'next-auth/next';
+import dbConnect from '@/lib/dbConnect';
+import { User } from 'next-auth';
+import { authOptions } from '../auth/[...nextauth]/options';
+import { validatedHandler } from '@/lib/validatedHandler';
+import { bulkMessageFlagsSchema } from '@/schemas/messageFlagsSchema';
+
+// Applies the same flags to several inbox messages, e.g. "mark all as read".
+// Ids that are not the user's accepted messages are skipped.
+export const POST = validatedHandler(
+  { body: bulkMessageFlagsSchema },
+  async (request, { body }) => {
+    await dbConnect();
+    const session = await getServerSession(authOptions);
+    const _user: User = session?.user;
+    if (!session || !_user) {
+      return Response.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { messageIds, ...flags } = body;
+
+    try {
+      const updateResult = await MessageModel.updateMany(
+        {
+          _id: { $in: messageIds },
+          recipient: _user._id,
+          status: messageStatusFilter('accepted'),
+          deletedAt: null,
+        },
+        { $set: flags }
+      );
+
+      return Response.json(
+        {
+          message: `${updateResult.matchedCount} messages updated`,
+          success: true,
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error('Error updating message flags:', error);
+      return Response.json(
+        { message: 'Error updating messages', success: false },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,76 @@
+import mongoose from 'mongoose';
+import MessageModel, { messageViewFilter } from '@/model/Message';
+import { getServerSession } from 'next-auth/next';
+import dbConnect from '@/lib/dbConnect';
+import { User } from 'next-auth';
+import { authOptions } from '../auth/[...nextauth]/options';
+import { validatedHandler } from '@/lib/validatedHandler';
+import { messageStatsQuerySchema } from '@/schemas/messageStatsQuerySchema';
+import { DEFAULT_MESSAGE_CATEGORY } from '@/lib/messageCategories';
+
+// Per-category counts for the dashboard filter chips, and how often each
+// reaction was used in the current tab
+export const GET = validatedHandler(
+  { query: messageStatsQuerySchema },
+  async (request, { query }) => {
+    await dbConnect();
+    const session = await getServerSession(authOptions);
+    const _user: User = session?.user;
+    if (!session || !_user) {
+      return Response.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    try {
+      // Aggregation pipelines are not cast by the schema, so ids are ObjectIds
+      type Count = { _id: string; count: number };
+      const [{ categories, reactions }] = await MessageModel.aggregate<{
+        categories: Count[];
+        reactions: Count[];
+      }>([
+        {
+          $match: {
+            recipient: new mongoose.Types.ObjectId(_user._id),
+            ...messageViewFilter(query.status),
+          },
+        },
+        {
+          $facet: {
+            categories: [
+              {
+                $group: {
+                  _id: { $ifNull: ['$category', DEFAULT_MESSAGE_CATEGORY] },
+                  count: { $sum: 1 },
+                },
+              },
+            ],
+            reactions: [
+              { $match: { reaction: { $ne: null } } },
+              { $group: { _id: '$reaction', count: { $sum: 1 } } },
+            ],
+          },
+        },
+      ]);
+
+      const toCounts = (counts: Count[]) =>
+        Object.fromEntries(counts.map(({ _id, count }) => [_id, count]));
+
+      return Response.json(
+        {
+          success: true,
+          categoryCounts: toCounts(categories),
+          reactionCounts: toCounts(reactions),
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error('Error fetching message stats:', error);
+      return Response.json(
+        { message: 'Error fetching message stats', success: false },
+        { status: 500 }
+      );
+    }
+  }
+);
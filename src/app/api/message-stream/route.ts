@@ -0,0 +1,146 @@
+import mongoose from 'mongoose';
+import MessageModel from '@/model/Message';
+import { getServerSession } from 'next-auth/next';
+import dbConnect from '@/lib/dbConnect';
+import { User } from 'next-auth';
+import { authOptions } from '../auth/[...nextauth]/options';
+import { subscribeToInbox } from '@/lib/events';
+import { objectIdValidation } from '@/schemas/objectIdSchema';
+
+// A stream stays open for as long as the dashboard does
+export const dynamic = 'force-dynamic';
+
+// Messages sent while the dashboard was disconnected, replayed on reconnect.
+// Past this many the dashboard is told to reload its list instead.
+const MAX_BACKFILL_MESSAGES = 100;
+// Keeps proxies from closing an idle connection
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+// How long the browser waits before reconnecting after a dropped connection
+const RECONNECT_DELAY_MS = 3 * 1000;
+
+// Server-Sent Events stream of the signed-in user's new messages. Each event
+// carries the message as JSON with its id as the event id, so a reconnecting
+// EventSource sends `Last-Event-ID` and gets everything it missed, or a
+// `resync` event when it missed too much. Clients that open a fresh
+// connection can pass `?lastEventId=` instead.
+export async function GET(request: Request) {
+  await dbConnect();
+  const session = await getServerSession(authOptions);
+  const _user: User = session?.user;
+  if (!session || !_user) {
+    return Response.json(
+      { success: false, message: 'Not authenticated' },
+      { status: 401 }
+    );
+  }
+
+  const lastEventId =
+    request.headers.get('last-event-id') ||
+    new URL(request.url).searchParams.get('lastEventId');
+  if (lastEventId && !objectIdValidation.safeParse(lastEventId).success) {
+    return Response.json(
+      { success: false, message: 'Invalid last event id' },
+      { status: 400 }
+    );
+  }
+
+  const userId = new mongoose.Types.ObjectId(_user._id);
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let isClosed = false;
+      // ObjectIds grow over time, so anything at or below this was already sent
+      let lastSentId = lastEventId
+        ? new mongoose.Types.ObjectId(lastEventId)
+        : null;
+
+      const write = (chunk: string) => {
+        if (!isClosed) controller.enqueue(encoder.encode(chunk));
+      };
+
+      // Everything after the last message sent; before the first one, only
+      // the message that was just published. After a gap longer than the
+      // backfill, a `resync` event tells the dashboard to reload its list
+      // instead, and the stream carries on from the newest message.
+      const sendMessages = async (messageId?: mongoose.Types.ObjectId) => {
+        const idFilter = lastSentId ? { $gt: lastSentId } : messageId;
+        if (!idFilter) return;
+
+        const query = { recipient: userId, _id: idFilter, deletedAt: null };
+        const messages = await MessageModel.find(query)
+          .sort({ _id: 1 })
+          .limit(MAX_BACKFILL_MESSAGES + 1)
+          .lean();
+
+        if (messages.length > MAX_BACKFILL_MESSAGES) {
+          const newest = await MessageModel.findOne(query)
+            .sort({ _id: -1 })
+            .select('_id')
+            .lean();
+          if (!newest) return;
+          write(`event: resync\nid: ${newest._id}\ndata: {}\n\n`);
+          lastSentId = newest._id;
+          return;
+        }
+
+        for (const message of messages) {
+          write(`id: ${message._id}\ndata: ${JSON.stringify(message)}\n\n`);
+          lastSentId = message._id;
+        }
+      };
+
+      // Bus events and the backfill run one after another, so messages go
+      // out in order and none is sent twice
+      let queue = Promise.resolve();
+      const enqueue = (task: () => Promise<void>) => {
+        queue = queue.then(task).catch((error) => {
+          console.error('Error streaming messages:', error);
+        });
+      };
+
+      // Subscribe before the backfill so nothing sent in between is missed
+      const unsubscribe = subscribeToInbox(userId.toString(), (event) => {
+        if (!objectIdValidation.safeParse(event.messageId).success) return;
+        const messageId = new mongoose.Types.ObjectId(event.messageId);
+        enqueue(() => sendMessages(messageId));
+      });
+
+      write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+      enqueue(() => sendMessages());
+
+      const heartbeat = setInterval(
+        () => write(': heartbeat\n\n'),
+        HEARTBEAT_INTERVAL_MS
+      );
+
+      cleanup = () => {
+        if (isClosed) return;
+        isClosed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // already closed by the client
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // stop nginx from buffering events
+    },
+  });
+}
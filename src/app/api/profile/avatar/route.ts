@@ -0,0 +1,186 @@
+import UserModel from '@/model/User';
+import { getServerSession } from 'next-auth/next';
+import dbConnect from '@/lib/dbConnect';
+import { User } from 'next-auth';
+import { authOptions } from '../../auth/[...nextauth]/options';
+import { deleteAvatar, saveAvatar } from '@/lib/avatarStorage';
+import { MAX_AVATAR_BYTES, toProfileSettings } from '@/lib/profile';
+
+// Room for the multipart boundaries and part headers around the image
+const MAX_UPLOAD_BYTES = MAX_AVATAR_BYTES + 16 * 1024;
+
+function uploadTooLarge() {
+  return Response.json(
+    {
+      success: false,
+      message: `Avatar must be smaller than ${MAX_AVATAR_BYTES / 1024 / 1024} MB`,
+    },
+    { status: 413 }
+  );
+}
+
+// Reads the request body, giving up once it passes `maxBytes`. formData()
+// would buffer the whole upload however large it is, and Content-Length
+// can't be trusted (or is missing for chunked uploads).
+async function readBodyWithLimit(
+  request: Request,
+  maxBytes: number
+): Promise<Uint8Array | null> {
+  if (!request.body) return new Uint8Array();
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      // The answer doesn't depend on whether the rest of the body arrives
+      await reader.cancel().catch(() => {});
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
+
+// Uploads a new avatar as multipart form data (field "avatar") and removes
+// the previous file
+export async function POST(request: Request) {
+  await dbConnect();
+  const session = await getServerSession(authOptions);
+  const _user: User = session?.user;
+  if (!session || !_user) {
+    return Response.json(
+      { success: false, message: 'Not authenticated' },
+      { status: 401 }
+    );
+  }
+
+  if (Number(request.headers.get('content-length')) > MAX_UPLOAD_BYTES) {
+    return uploadTooLarge();
+  }
+  let body: Uint8Array | null;
+  try {
+    body = await readBodyWithLimit(request, MAX_UPLOAD_BYTES);
+  } catch {
+    // The client aborted or sent a broken body
+    return Response.json(
+      { success: false, message: 'Could not read the uploaded file' },
+      { status: 400 }
+    );
+  }
+  if (!body) {
+    return uploadTooLarge();
+  }
+
+  let file: FormDataEntryValue | null;
+  try {
+    // The capped body is parsed as multipart with the request's own boundary
+    const formData = await new Response(body, {
+      headers: { 'Content-Type': request.headers.get('content-type') ?? '' },
+    }).formData();
+    file = formData.get('avatar');
+  } catch {
+    return Response.json(
+      { success: false, message: 'Request body must be multipart form data' },
+      { status: 400 }
+    );
+  }
+  if (!file || typeof file === 'string') {
+    return Response.json(
+      { success: false, message: 'Choose an image to upload' },
+      { status: 400 }
+    );
+  }
+  if (file.size > MAX_AVATAR_BYTES) {
+    return uploadTooLarge();
+  }
+
+  try {
+    const filename = await saveAvatar(
+      _user._id as string,
+      Buffer.from(await file.arrayBuffer())
+    );
+    if (!filename) {
+      return Response.json(
+        { success: false, message: 'Avatar must be a PNG, JPEG or WebP image' },
+        { status: 415 }
+      );
+    }
+
+    const previous = await UserModel.findByIdAndUpdate(_user._id, {
+      avatar: filename,
+    });
+    if (!previous) {
+      await deleteAvatar(filename);
+      return Response.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      );
+    }
+    if (previous.avatar) await deleteAvatar(previous.avatar);
+
+    return Response.json(
+      {
+        success: true,
+        message: 'Avatar updated',
+        profileSettings: toProfileSettings({
+          ...previous.toObject(),
+          avatar: filename,
+        }),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error uploading avatar:', error);
+    return Response.json(
+      { success: false, message: 'Error uploading avatar' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: Request) {
+  await dbConnect();
+  const session = await getServerSession(authOptions);
+  const _user: User = session?.user;
+  if (!session || !_user) {
+    return Response.json(
+      { success: false, message: 'Not authenticated' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const previous = await UserModel.findByIdAndUpdate(_user._id, {
+      $unset: { avatar: '' },
+    });
+    if (!previous) {
+      return Response.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      );
+    }
+    if (previous.avatar) await deleteAvatar(previous.avatar);
+
+    return Response.json(
+      { success: true, message: 'Avatar removed' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error removing avatar:', error);
+    return Response.json(
+      { success: false, message: 'Error removing avatar' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import UserModel from '@/model/User';
+import { getServerSession } from 'next-auth/next';
+import dbConnect from '@/lib/dbConnect';
+import { User } from 'next-auth';
+import { authOptions } from '../auth/[...nextauth]/options';
+import { validatedHandler } from '@/lib/validatedHandler';
+import { toProfileSettings } from '@/lib/profile';
+import { updateProfileSchema } from '@/schemas/profileSchema';
+
+// The signed-in user's public profile fields, for the settings page
+export async function GET(request: Request) {
+  await dbConnect();
+  const session = await getServerSession(authOptions);
+  const _user: User = session?.user;
+  if (!session || !_user) {
+    return Response.json(
+      { success: false, message: 'Not authenticated' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const user = await UserModel.findById(_user._id);
+    if (!user) {
+      return Response.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return Response.json(
+      { success: true, profileSettings: toProfileSettings(user) },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching profile:', error);
+    return Response.json(
+      { success: false, message: 'Error fetching profile' },
+      { status: 500 }
+    );
+  }
+}
+
+// Updates the text fields and theme colour; the avatar has its own route
+export const PATCH = validatedHandler(
+  { body: updateProfileSchema },
+  async (request, { body }) => {
+    await dbConnect();
+    const session = await getServerSession(authOptions);
+    const _user: User = session?.user;
+    if (!session || !_user) {
+      return Response.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    // Empty strings clear a field, the same as null
+    const $set: Record<string, string> = {};
+    const $unset: Record<string, ''> = {};
+    for (const [field, value] of Object.entries(body)) {
+      if (value === undefined) continue;
+      if (value) $set[field] = value;
+      else $unset[field] = '';
+    }
+
+    try {
+      const user = await UserModel.findByIdAndUpdate(
+        _user._id,
+        { $set, $unset },
+        { new: true }
+      );
+      if (!user) {
+        return Response.json(
+          { success: false, message: 'User not found' },
+          { status: 404 }
+        );
+      }
+
+      return Response.json(
+        {
+          success: true,
+          message: 'Profile updated',
+          profileSettings: toProfileSettings(user),
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error('Error updating profile:', error);
+      return Response.json(
+        { success: false, message: 'Error updating profile' },
+        { status: 500 }
+      );
+    }
+  }
+);
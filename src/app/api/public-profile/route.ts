@@ -0,0 +1,71 @@
+import UserModel from '@/model/User';
+import FeedbackLinkModel, { isFeedbackLinkOpen } from '@/model/FeedbackLink';
+import dbConnect from '@/lib/dbConnect';
+import { validatedHandler } from '@/lib/validatedHandler';
+import { getScheduleState } from '@/lib/acceptSchedule';
+import { toProfileSettings } from '@/lib/profile';
+import { publicProfileQuerySchema } from '@/schemas/publicProfileSchema';
+
+// What a sender may see about a recipient on /u/[username], and about the
+// named link on /u/[username]/[slug]. Only fields listed here are ever
+// exposed, never the documents themselves.
+export const GET = validatedHandler(
+  { query: publicProfileQuerySchema },
+  async (request, { query }) => {
+    await dbConnect();
+
+    try {
+      const user = await UserModel.findOne({ username: query.username });
+
+      if (!user) {
+        return Response.json(
+          { message: 'User not found', success: false },
+          { status: 404 }
+        );
+      }
+
+      const link = query.link
+        ? await FeedbackLinkModel.findOne({ owner: user._id, slug: query.link })
+        : null;
+      if (query.link && !link) {
+        return Response.json(
+          { message: 'Feedback link not found', success: false },
+          { status: 404 }
+        );
+      }
+
+      // The manual switch wins; the schedule only applies while it is on
+      const schedule = user.isAcceptingMessages
+        ? getScheduleState(user.acceptSchedule)
+        : { isOpen: false, nextChangeAt: null };
+
+      return Response.json(
+        {
+          success: true,
+          profile: {
+            username: user.username,
+            ...toProfileSettings(user),
+            acceptedCategories: user.acceptedCategories,
+            isAcceptingMessages: schedule.isOpen,
+            nextScheduleChangeAt: schedule.nextChangeAt,
+            link: link
+              ? {
+                  slug: link.slug,
+                  question: link.question,
+                  category: link.category ?? null,
+                  isOpen: isFeedbackLinkOpen(link),
+                }
+              : undefined,
+          },
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error('Error fetching public profile:', error);
+      return Response.json(
+        { message: 'Error fetching public profile', success: false },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,133 @@
+import MessageModel, {
+  MAX_PUBLISHED_MESSAGES,
+  messageStatusFilter,
+} from '@/model/Message';
+import { getServerSession } from 'next-auth/next';
+import dbConnect from '@/lib/dbConnect';
+import { User } from 'next-auth';
+import { authOptions } from '../../auth/[...nextauth]/options';
+import { validatedHandler } from '@/lib/validatedHandler';
+import { messageIdParamsSchema } from '@/schemas/messageSchema';
+import { publishMessageSchema } from '@/schemas/publishMessageSchema';
+
+// Publishes an inbox message with the recipient's answer on /u/[username].
+// Posting again to a published message only edits the answer.
+export const POST = validatedHandler(
+  { params: messageIdParamsSchema, body: publishMessageSchema },
+  async (request, { params, body }) => {
+    const messageId = params.messageid;
+    await dbConnect();
+    const session = await getServerSession(authOptions);
+    const _user: User = session?.user;
+    if (!session || !_user) {
+      return Response.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    try {
+      const message = await MessageModel.findOne({
+        _id: messageId,
+        recipient: _user._id,
+        status: messageStatusFilter('accepted'),
+        deletedAt: null,
+      });
+
+      if (!message) {
+        return Response.json(
+          { message: 'Message not found', success: false },
+          { status: 404 }
+        );
+      }
+
+      if (!message.isPublished) {
+        // Published messages in Trash are hidden from the wall, so they don't count
+        const publishedCount = await MessageModel.countDocuments({
+          recipient: _user._id,
+          isPublished: true,
+          deletedAt: null,
+        });
+        if (publishedCount >= MAX_PUBLISHED_MESSAGES) {
+          return Response.json(
+            {
+              message: `You can publish up to ${MAX_PUBLISHED_MESSAGES} answers. Unpublish one first.`,
+              success: false,
+            },
+            { status: 409 }
+          );
+        }
+
+        // Newly published answers go to the top of the wall
+        const top = await MessageModel.findOne({
+          recipient: _user._id,
+          isPublished: true,
+        })
+          .sort({ publishedOrder: 1 })
+          .select('publishedOrder');
+        message.isPublished = true;
+        message.publishedOrder = (top?.publishedOrder ?? 0) - 1;
+        message.publishedAt = new Date();
+      }
+
+      message.answer = body.answer;
+      await message.save();
+
+      return Response.json(
+        { message: 'Answer published', success: true },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error('Error publishing message:', error);
+      return Response.json(
+        { message: 'Error publishing message', success: false },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+// Takes a message off the wall. The answer is kept so it can be republished.
+export const DELETE = validatedHandler(
+  { params: messageIdParamsSchema },
+  async (request, { params }) => {
+    const messageId = params.messageid;
+    await dbConnect();
+    const session = await getServerSession(authOptions);
+    const _user: User = session?.user;
+    if (!session || !_user) {
+      return Response.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    try {
+      const updateResult = await MessageModel.updateOne(
+        { _id: messageId, recipient: _user._id, isPublished: true },
+        {
+          isPublished: false,
+          $unset: { publishedOrder: '', publishedAt: '' },
+        }
+      );
+
+      if (updateResult.modifiedCount === 0) {
+        return Response.json(
+          { message: 'Message not found or not published', success: false },
+          { status: 404 }
+        );
+      }
+
+      return Response.json(
+        { message: 'Answer unpublished', success: true },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error('Error unpublishing message:', error);
+      return Response.json(
+        { message: 'Error unpublishing message', success: false },
+        { status: 500 }
+      );
+    }
+  }
+);
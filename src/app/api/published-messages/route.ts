@@ -0,0 +1,47 @@
+import MessageModel from '@/model/Message';
+import UserModel from '@/model/User';
+import dbConnect from '@/lib/dbConnect';
+import { validatedHandler } from '@/lib/validatedHandler';
+import { usernameSchema } from '@/schemas/signUpSchema';
+
+// Public feed of answered questions shown on /u/[username]. Only the
+// question, the answer and their dates leave the server.
+export const GET = validatedHandler(
+  { query: usernameSchema },
+  async (request, { query }) => {
+    await dbConnect();
+
+    try {
+      const user = await UserModel.findOne({ username: query.username }).select(
+        '_id'
+      );
+
+      if (!user) {
+        return Response.json(
+          { message: 'User not found', success: false },
+          { status: 404 }
+        );
+      }
+
+      const publishedMessages = await MessageModel.find({
+        recipient: user._id,
+        isPublished: true,
+        deletedAt: null, // a trashed message leaves the wall too
+      })
+        .sort({ publishedOrder: 1 })
+        .select('content answer createdAt publishedAt')
+        .lean();
+
+      return Response.json(
+        { success: true, publishedMessages },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error('Error fetching published messages:', error);
+      return Response.json(
+        { message: 'Error fetching published messages', success: false },
+        { status: 500 }
+      );
+    }
+  }
+);
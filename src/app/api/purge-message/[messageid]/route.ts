@@ -0,0 +1,51 @@
+import MessageModel from '@/model/Message';
+import { getServerSession } from 'next-auth/next';
+import dbConnect from '@/lib/dbConnect';
+import { User } from 'next-auth';
+import { authOptions } from '../../auth/[...nextauth]/options';
+import { validatedHandler } from '@/lib/validatedHandler';
+import { messageIdParamsSchema } from '@/schemas/messageSchema';
+
+// Permanently deletes a message from Trash. Messages outside Trash must be
+// deleted (trashed) first, so one click can never destroy a message.
+export const DELETE = validatedHandler(
+  { params: messageIdParamsSchema },
+  async (request, { params }) => {
+    const messageId = params.messageid;
+    await dbConnect();
+    const session = await getServerSession(authOptions);
+    const _user: User = session?.user;
+    if (!session || !_user) {
+      return Response.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    try {
+      const deleteResult = await MessageModel.deleteOne({
+        _id: messageId,
+        recipient: _user._id,
+        deletedAt: { $ne: null },
+      });
+
+      if (deleteResult.deletedCount === 0) {
+        return Response.json(
+          { message: 'Message not found in Trash', success: false },
+          { status: 404 }
+        );
+      }
+
+      return Response.json(
+        { message: 'Message deleted permanently', success: true },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error('Error deleting message permanently:', error);
+      return Response.json(
+        { message: 'Error deleting message permanently', success: false },
+        { status: 500 }
+      );
+    }
+  }
+);
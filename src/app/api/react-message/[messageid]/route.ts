@@ -0,0 +1,60 @@
+import MessageModel, { messageStatusFilter } from '@/model/Message';
+import { getServerSession } from 'next-auth/next';
+import dbConnect from '@/lib/dbConnect';
+import { User } from 'next-auth';
+import { authOptions } from '../../auth/[...nextauth]/options';
+import { validatedHandler } from '@/lib/validatedHandler';
+import { messageIdParamsSchema, reactionSchema } from '@/schemas/messageSchema';
+
+// Sets or clears the recipient's reaction. The sender sees it on their
+// thread page, so it works as a lightweight acknowledgement.
+export const POST = validatedHandler(
+  { params: messageIdParamsSchema, body: reactionSchema },
+  async (request, { params, body }) => {
+    const messageId = params.messageid;
+    await dbConnect();
+    const session = await getServerSession(authOptions);
+    const _user: User = session?.user;
+    if (!session || !_user) {
+      return Response.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    try {
+      const updateResult = await MessageModel.updateOne(
+        {
+          _id: messageId,
+          recipient: _user._id,
+          status: messageStatusFilter('accepted'),
+          deletedAt: null,
+        },
+        body.reaction
+          ? { reaction: body.reaction }
+          : { $unset: { reaction: '' } }
+      );
+
+      if (updateResult.matchedCount === 0) {
+        return Response.json(
+          { message: 'Message not found', success: false },
+          { status: 404 }
+        );
+      }
+
+      return Response.json(
+        {
+          message: body.reaction ? 'Reaction added' : 'Reaction removed',
+          success: true,
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error('Error reacting to message:', error);
+      return Response.json(
+        { message: 'Error reacting to message', success: false },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,53 @@
+import mongoose from 'mongoose';
+import MessageModel from '@/model/Message';
+import { getServerSession } from 'next-auth/next';
+import dbConnect from '@/lib/dbConnect';
+import { User } from 'next-auth';
+import { authOptions } from '../auth/[...nextauth]/options';
+import { validatedHandler } from '@/lib/validatedHandler';
+import { reorderPublishedSchema } from '@/schemas/publishMessageSchema';
+
+// Saves the order of the public wall. The client sends every published id,
+// top to bottom; ids that are not the user's published messages are ignored.
+export const PUT = validatedHandler(
+  { body: reorderPublishedSchema },
+  async (request, { body }) => {
+    await dbConnect();
+    const session = await getServerSession(authOptions);
+    const _user: User = session?.user;
+    if (!session || !_user) {
+      return Response.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    try {
+      // bulkWrite filters are typed against the stored document, so pass ObjectIds
+      const userId = new mongoose.Types.ObjectId(_user._id);
+      await MessageModel.bulkWrite(
+        body.messageIds.map((messageId, index) => ({
+          updateOne: {
+            filter: {
+              _id: new mongoose.Types.ObjectId(messageId),
+              recipient: userId,
+              isPublished: true,
+            },
+            update: { $set: { publishedOrder: index } },
+          },
+        }))
+      );
+
+      return Response.json(
+        { message: 'Order saved', success: true },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error('Error reordering published messages:', error);
+      return Response.json(
+        { message: 'Error reordering published messages', success: false },
+        { status: 500 }
+      );
+    }
+  }
+);
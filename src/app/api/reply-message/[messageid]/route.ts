@@ -0,0 +1,71 @@
+import MessageModel, { MAX_THREAD_REPLIES } from '@/model/Message';
+import { getServerSession } from 'next-auth/next';
+import dbConnect from '@/lib/dbConnect';
+import { User } from 'next-auth';
+import { authOptions } from '../../auth/[...nextauth]/options';
+import { validatedHandler } from '@/lib/validatedHandler';
+import { messageIdParamsSchema, replySchema } from '@/schemas/messageSchema';
+
+// The recipient answers a message; the anonymous sender reads it on their thread page
+export const POST = validatedHandler(
+  { params: messageIdParamsSchema, body: replySchema },
+  async (request, { params, body }) => {
+    const messageId = params.messageid;
+    await dbConnect();
+    const session = await getServerSession(authOptions);
+    const _user: User = session?.user;
+    if (!session || !_user) {
+      return Response.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    try {
+      // The `replies.N` check keeps the push atomic and the thread capped
+      const updatedMessage = await MessageModel.findOneAndUpdate(
+        {
+          _id: messageId,
+          recipient: _user._id,
+          deletedAt: null, // no replies on messages in Trash
+          [`replies.${MAX_THREAD_REPLIES - 1}`]: { $exists: false },
+        },
+        {
+          $push: {
+            replies: {
+              author: 'recipient',
+              content: body.content,
+              createdAt: new Date(),
+            },
+          },
+        },
+        { new: true, projection: { replies: { $slice: -1 } } }
+      );
+
+      if (!updatedMessage) {
+        return Response.json(
+          {
+            message: 'Message not found or conversation is full',
+            success: false,
+          },
+          { status: 404 }
+        );
+      }
+
+      return Response.json(
+        {
+          message: 'Reply sent',
+          success: true,
+          reply: updatedMessage.replies[0],
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error('Error replying to message:', error);
+      return Response.json(
+        { message: 'Error replying to message', success: false },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,119 @@
+import dbConnect from '@/lib/dbConnect';
+import UserModel from '@/model/User';
+import { usernameSchema } from '@/schemas/signUpSchema';
+import { validatedHandler } from '@/lib/validatedHandler';
+import { generateOneTimeCode } from '@/lib/oneTimeCode';
+import {
+  VERIFY_CODE_RESEND_COOLDOWN_SECONDS,
+  VERIFY_CODE_TTL_MS,
+} from '@/lib/verifyCode';
+import { sendVerificationEmail } from '@/helpers/sendVerificationEmail';
+
+export const POST = validatedHandler(
+  { body: usernameSchema },
+  async (request, { body }) => {
+    await dbConnect();
+
+    try {
+      const user = await UserModel.findOne({ username: body.username });
+
+      if (!user) {
+        return Response.json(
+          { success: false, message: 'User not found' },
+          { status: 404 }
+        );
+      }
+
+      if (user.isVerified) {
+        return Response.json(
+          { success: false, message: 'Account is already verified' },
+          { status: 400 }
+        );
+      }
+
+      // Per-account cooldown between emails. The cooldown check and the new
+      // timestamp are one conditional update, so parallel requests can't each
+      // pass it and send an email.
+      // A fresh code also unlocks verification after too many wrong attempts.
+      // The sign-up password is left untouched.
+      const now = Date.now();
+      const verifyCode = generateOneTimeCode();
+      const updatedUser = await UserModel.findOneAndUpdate(
+        {
+          _id: user._id,
+          $or: [
+            { verifyCodeSentAt: null },
+            {
+              verifyCodeSentAt: {
+                $lte: new Date(
+                  now - VERIFY_CODE_RESEND_COOLDOWN_SECONDS * 1000
+                ),
+              },
+            },
+          ],
+        },
+        {
+          $set: {
+            verifyCode,
+            verifyCodeExpiry: new Date(now + VERIFY_CODE_TTL_MS),
+            verifyCodeSentAt: new Date(now),
+            verifyCodeAttempts: 0,
+          },
+        }
+      );
+
+      if (!updatedUser) {
+        // Another request may have just sent one, so fall back to a full cooldown
+        const cooldownEndsAt = user.verifyCodeSentAt
+          ? new Date(user.verifyCodeSentAt).getTime() +
+            VERIFY_CODE_RESEND_COOLDOWN_SECONDS * 1000
+          : 0;
+        const retryAfterSeconds =
+          cooldownEndsAt > now
+            ? Math.ceil((cooldownEndsAt - now) / 1000)
+            : VERIFY_CODE_RESEND_COOLDOWN_SECONDS;
+        return Response.json(
+          {
+            success: false,
+            message: `Please wait ${retryAfterSeconds}s before requesting a new code`,
+            retryAfterSeconds,
+          },
+          {
+            status: 429,
+            headers: { 'Retry-After': retryAfterSeconds.toString() },
+          }
+        );
+      }
+
+      const emailResponse = await sendVerificationEmail(
+        user.email,
+        user.username,
+        verifyCode
+      );
+      if (!emailResponse.success) {
+        return Response.json(
+          {
+            success: false,
+            message: emailResponse.message,
+          },
+          { status: 500 }
+        );
+      }
+
+      return Response.json(
+        {
+          success: true,
+          message: 'A new verification code has been sent to your email',
+          retryAfterSeconds: VERIFY_CODE_RESEND_COOLDOWN_SECONDS,
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error('Error resending verification code:', error);
+      return Response.json(
+        { success: false, message: 'Error resending verification code' },
+        { status: 500 }
+      );
+    }
+  }
+);
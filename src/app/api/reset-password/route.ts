@@ -0,0 +1,132 @@
+import dbConnect from '@/lib/dbConnect';
+import UserModel from '@/model/User';
+import bcrypt from 'bcryptjs';
+import { validatedHandler } from '@/lib/validatedHandler';
+import { resetPasswordSchema } from '@/schemas/resetPasswordSchema';
+import { isOneTimeCodeMatch } from '@/lib/oneTimeCode';
+import {
+  createRateLimiter,
+  getClientIpHash,
+  RateLimitResult,
+} from '@/lib/rateLimit';
+
+// Guesses allowed against one emailed code before a new one must be requested
+const MAX_RESET_PASSWORD_ATTEMPTS = 5;
+
+// Caps guesses across codes too, so requesting new codes over and over
+// doesn't add up to a brute force
+const resetEmailLimiter = createRateLimiter({
+  name: 'reset-password:email',
+  limit: 10,
+  windowMs: 15 * 60 * 1000,
+});
+const resetIpLimiter = createRateLimiter({
+  name: 'reset-password:ip',
+  limit: 20,
+  windowMs: 15 * 60 * 1000,
+});
+
+const INVALID_CODE_RESPONSE = {
+  success: false,
+  message: 'Invalid or expired reset code',
+};
+
+function tooManyRequests({ retryAfterSeconds }: RateLimitResult) {
+  return Response.json(
+    {
+      success: false,
+      message: 'Too many reset attempts. Please try again later.',
+      retryAfterSeconds,
+    },
+    {
+      status: 429,
+      headers: { 'Retry-After': retryAfterSeconds.toString() },
+    }
+  );
+}
+
+export const POST = validatedHandler(
+  { body: resetPasswordSchema },
+  async (request, { body }) => {
+    await dbConnect();
+
+    try {
+      const { email, code, password } = body;
+
+      const ipLimit = await resetIpLimiter.consume(getClientIpHash(request));
+      if (!ipLimit.allowed) {
+        return tooManyRequests(ipLimit);
+      }
+      const emailLimit = await resetEmailLimiter.consume(email);
+      if (!emailLimit.allowed) {
+        return tooManyRequests(emailLimit);
+      }
+
+      const user = await UserModel.findOne({ email });
+
+      // Unknown email and missing code get the same answer as a wrong code
+      if (!user || !user.resetPasswordCode || !user.resetPasswordExpiry) {
+        return Response.json(INVALID_CODE_RESPONSE, { status: 400 });
+      }
+
+      // Every guess is counted before the code is compared. The limit check and
+      // the $inc are one conditional update, so parallel guesses can't get past
+      // it. A locked code answers like a wrong one and needs a new email.
+      const attempt = await UserModel.findOneAndUpdate(
+        {
+          _id: user._id,
+          resetPasswordCode: user.resetPasswordCode,
+          resetPasswordAttempts: { $lt: MAX_RESET_PASSWORD_ATTEMPTS },
+        },
+        { $inc: { resetPasswordAttempts: 1 } }
+      );
+      if (!attempt || !isOneTimeCodeMatch(code, user.resetPasswordCode)) {
+        return Response.json(INVALID_CODE_RESPONSE, { status: 400 });
+      }
+
+      if (new Date(user.resetPasswordExpiry) <= new Date()) {
+        return Response.json(
+          {
+            success: false,
+            message: 'Reset code has expired. Please request a new one.',
+          },
+          { status: 400 }
+        );
+      }
+
+      // Single use: the code is cleared in the same atomic update that sets the
+      // password, so two requests racing with the same code can't both succeed
+      const updateResult = await UserModel.updateOne(
+        { _id: user._id, resetPasswordCode: user.resetPasswordCode },
+        {
+          $set: {
+            password: await bcrypt.hash(password, 10),
+            resetPasswordAttempts: 0,
+          },
+          $unset: { resetPasswordCode: '', resetPasswordExpiry: '' },
+        }
+      );
+
+      if (updateResult.modifiedCount === 0) {
+        return Response.json(INVALID_CODE_RESPONSE, { status: 400 });
+      }
+
+      return Response.json(
+        {
+          success: true,
+          message: 'Password reset successfully. Please sign in.',
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error('Error resetting password:', error);
+      return Response.json(
+        {
+          success: false,
+          message: 'Error resetting password',
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,50 @@
+import MessageModel from '@/model/Message';
+import { getServerSession } from 'next-auth/next';
+import dbConnect from '@/lib/dbConnect';
+import { User } from 'next-auth';
+import { authOptions } from '../../auth/[...nextauth]/options';
+import { validatedHandler } from '@/lib/validatedHandler';
+import { messageIdParamsSchema } from '@/schemas/messageSchema';
+
+// Takes a message out of Trash (also the "Undo" of a delete). Its flags and
+// status are untouched, so it returns to the tab it was deleted from.
+export const POST = validatedHandler(
+  { params: messageIdParamsSchema },
+  async (request, { params }) => {
+    const messageId = params.messageid;
+    await dbConnect();
+    const session = await getServerSession(authOptions);
+    const _user: User = session?.user;
+    if (!session || !_user) {
+      return Response.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    try {
+      const updateResult = await MessageModel.updateOne(
+        { _id: messageId, recipient: _user._id, deletedAt: { $ne: null } },
+        { $unset: { deletedAt: '', purgeAt: '' } }
+      );
+
+      if (updateResult.modifiedCount === 0) {
+        return Response.json(
+          { message: 'Message not found in Trash', success: false },
+          { status: 404 }
+        );
+      }
+
+      return Response.json(
+        { message: 'Message restored', success: true },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error('Error restoring message:', error);
+      return Response.json(
+        { message: 'Error restoring message', success: false },
+        { status: 500 }
+      );
+    }
+  }
+);
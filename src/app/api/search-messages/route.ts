@@ -0,0 +1,80 @@
+import mongoose from 'mongoose';
+import MessageModel from '@/model/Message';
+import { getServerSession } from 'next-auth/next';
+import dbConnect from '@/lib/dbConnect';
+import { User } from 'next-auth';
+import { authOptions } from '../auth/[...nextauth]/options';
+import { validatedHandler } from '@/lib/validatedHandler';
+import { searchMessagesQuerySchema } from '@/schemas/messageQuerySchema';
+import {
+  decodeMessageCursor,
+  encodeMessageCursor,
+  messageCursorFilter,
+} from '@/lib/messageCursor';
+import { buildMessageFilter } from '@/lib/messageFilter';
+
+// Full-text search over the signed-in user's messages. Words match in any
+// order; "quoted text" must appear as a phrase; -word excludes a word.
+// Results are newest first and paginate like /api/get-messages.
+export const GET = validatedHandler(
+  { query: searchMessagesQuerySchema },
+  async (request, { query }) => {
+    await dbConnect();
+    const session = await getServerSession(authOptions);
+    const _user: User = session?.user;
+    if (!session || !_user) {
+      return Response.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { q, status, category, link, cursor, limit, before, after } = query;
+    const filter = buildMessageFilter(new mongoose.Types.ObjectId(_user._id), {
+      status,
+      category,
+      link,
+      before,
+      after,
+      q,
+    });
+
+    if (cursor) {
+      const position = decodeMessageCursor(cursor);
+      if (!position) {
+        return Response.json(
+          { success: false, message: 'Invalid cursor' },
+          { status: 400 }
+        );
+      }
+
+      Object.assign(filter, messageCursorFilter(position));
+    }
+
+    try {
+      // Served by the { recipient, content: 'text' } index
+      const messages = await MessageModel.find(filter)
+        .sort({ createdAt: -1, _id: -1 })
+        .limit(limit + 1)
+        .exec();
+
+      const hasMore = messages.length > limit;
+      const page = hasMore ? messages.slice(0, limit) : messages;
+      const last = page[page.length - 1];
+      const nextCursor = hasMore
+        ? encodeMessageCursor(last.createdAt, last._id.toString())
+        : null;
+
+      return Response.json(
+        { success: true, messages: page, nextCursor },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error('Error searching messages:', error);
+      return Response.json(
+        { message: 'Error searching messages', success: false },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -1,56 +1,210 @@
 import UserModel from '@/model/User'; // Import the User model from the schema
 import dbConnect from '@/lib/dbConnect'; // MongoDB connection utility
-import { Message } from '@/model/User'; // Message type from the user schema
+import MessageModel from '@/model/Message'; // Standalone Message model
+import FeedbackLinkModel, { isFeedbackLinkOpen } from '@/model/FeedbackLink'; // Named links
+import { getServerSession } from 'next-auth/next'; // Optional sender session
+import { authOptions } from '../auth/[...nextauth]/options'; // NextAuth configuration
+import { validatedHandler } from '@/lib/validatedHandler'; // Body validation wrapper
+import { sendMessageSchema } from '@/schemas/messageSchema'; // username + content (10–300 chars) + category
+import { moderateMessage } from '@/lib/moderation'; // Word list + classifier checks
+import { generateReplyToken, hashReplyToken } from '@/lib/replyToken'; // Sender's secret thread token
+import { MESSAGE_CATEGORY_LABELS } from '@/lib/messageCategories'; // Display names for the 403 message
+import { formatScheduleDate, getScheduleState } from '@/lib/acceptSchedule'; // Open/close windows
+import { publishNewMessage } from '@/lib/events'; // Live updates for open dashboards
+import {
+  createRateLimiter,
+  getClientIpHash,
+  RateLimitResult,
+} from '@/lib/rateLimit'; // Flood protection
 
-export async function POST(request: Request) {
-   // Step 1: Connect to the MongoDB database
-  await dbConnect();
+// One sender (by hashed IP) can't flood anyone, and one inbox can't be
+// flooded by many senders at once
+const senderLimiter = createRateLimiter({
+  name: 'send-message:ip',
+  limit: 5,
+  windowMs: 60 * 1000,
+});
+const recipientLimiter = createRateLimiter({
+  name: 'send-message:recipient',
+  limit: 30,
+  windowMs: 60 * 1000,
+});
 
-   // Step 2: Extract data from the incoming request body
-  const { username, content } = await request.json();
+function tooManyRequests(
+  message: string,
+  { retryAfterSeconds }: RateLimitResult
+) {
+  return Response.json(
+    { message, success: false, retryAfterSeconds },
+    {
+      status: 429,
+      headers: { 'Retry-After': retryAfterSeconds.toString() },
+    }
+  );
+}
+
+export const POST = validatedHandler(
+  { body: sendMessageSchema },
+  async (request, { body }) => {
+    // Step 1: Connect to the MongoDB database
+    await dbConnect();
+
+    // Step 2: Data from the request body, already validated against sendMessageSchema
+    const { username, content, category, linkSlug } = body;
+
+    try {
+      // Step 2.1: Rate limit before touching the recipient. The per-IP limit
+      // goes first, so a throttled sender never uses up the recipient's shared budget.
+      const senderLimit = await senderLimiter.consume(getClientIpHash(request));
+      if (!senderLimit.allowed) {
+        return tooManyRequests(
+          'You are sending messages too quickly. Please wait a moment and try again.',
+          senderLimit
+        );
+      }
+
+      const recipientLimit = await recipientLimiter.consume(username);
+      if (!recipientLimit.allowed) {
+        return tooManyRequests(
+          'This user is receiving too many messages right now. Please try again shortly.',
+          recipientLimit
+        );
+      }
+
+      const user = await UserModel.findOne({ username }).exec(); // Step 3: Find the user in the database using their username
+
+      if (!user) {
+        // Step 3.1: If user not found, respond with 404
+        return Response.json(
+          { message: 'User not found',
+            success: false },
+          { status: 404 }
+        );
+      }
 
-  try {
-    const user = await UserModel.findOne({ username }).exec(); // Step 3: Find the user in the database using their username
+      if (!user.isAcceptingMessages) {
+        // Step 4: If user has disabled message reception, respond with 403
+        return Response.json(
+          { message: 'User is not accepting messages',
+            success: false },
+          { status: 403 }
+        );
+      }
+      // Step 4.1: Outside the recipient's scheduled windows the board is closed
+      const schedule = getScheduleState(user.acceptSchedule);
+      if (!schedule.isOpen) {
+        return Response.json(
+          {
+            message: schedule.nextChangeAt
+              ? `This user is not accepting messages right now. The board opens ${formatScheduleDate(schedule.nextChangeAt)}.`
+              : 'This user is no longer accepting messages',
+            success: false,
+          },
+          { status: 403 }
+        );
+      }
+      // Step 4.2: Messages sent through a named link must use an open link,
+      // and take its preset topic when it has one
+      const link = linkSlug
+        ? await FeedbackLinkModel.findOne({ owner: user._id, slug: linkSlug })
+        : null;
+      if (linkSlug && !link) {
+        return Response.json(
+          { message: 'Feedback link not found',
+            success: false },
+          { status: 404 }
+        );
+      }
+      if (link && !isFeedbackLinkOpen(link)) {
+        return Response.json(
+          { message: 'This feedback link is closed',
+            success: false },
+          { status: 403 }
+        );
+      }
+      const messageCategory = link?.category ?? category;
+
+      if (!link?.category && !user.acceptedCategories.includes(messageCategory)) {
+        // Step 4.3: The recipient has switched this topic off
+        return Response.json(
+          {
+            message: `This user is not accepting messages about ${MESSAGE_CATEGORY_LABELS[messageCategory]}`,
+            success: false,
+          },
+          { status: 403 }
+        );
+      }
+      if (user.onlyVerifiedSenders) {
+        // Step 4.4: Recipient only accepts campus-verified senders. The session is
+        // checked but never stored with the message, so the sender stays anonymous.
+        const session = await getServerSession(authOptions);
+        if (!session?.user?.isCampusVerified) {
+          return Response.json(
+            {
+              message:
+                'This user only accepts messages from verified campus members. Please sign in with your institute account.',
+              success: false,
+            },
+            { status: 403 }
+          );
+        }
+      }
+
+      // Step 4.5: Moderation runs before anything is saved. The recipient decides
+      // whether flagged messages are blocked, held for review or shown blurred.
+      const moderation = await moderateMessage(content);
+      if (moderation.flagged && user.flaggedMessageAction === 'block') {
+        return Response.json(
+          {
+            message:
+              "Your message was blocked by this user's content filter. Please keep it respectful.",
+            success: false,
+          },
+          { status: 422 }
+        );
+      }
+
+      // Step 5: Insert the message into its own collection, pointing back at the recipient.
+      // The user document is never loaded for writing, so it stays small however many messages arrive.
+      // Only the hash of the reply token is stored; the token itself goes back to the sender once.
+      const replyToken = generateReplyToken();
+      const message = await MessageModel.create({
+        recipient: user._id,   // Who the message is for
+        content,               // Message content from request
+        category: messageCategory, // Topic picked on the form, or the link's preset
+        link: link?._id,       // Named feedback link, if sent through one
+        createdAt: new Date(), // Timestamp for when the message is created
+        status:
+          moderation.flagged && user.flaggedMessageAction === 'hold'
+            ? 'held'
+            : user.requireApproval
+              ? 'pending'
+              : 'accepted',
+        flagged: moderation.flagged,
+        flagReasons: moderation.reasons,
+        replyTokenHash: hashReplyToken(replyToken),
+      });
+
+      // Step 6: Push it to the recipient's open dashboards (see /api/message-stream)
+      publishNewMessage(user._id.toString(), {
+        messageId: message._id.toString(),
+      });
 
-    if (!user) {
-      // Step 3.1: If user not found, respond with 404
       return Response.json(
-        { message: 'User not found',
-          success: false },
-        { status: 404 }
+        { message: 'Message sent successfully', 
+          success: true,
+          replyToken }, // Step 7: Respond with success (and the sender's thread token)
+        { status: 201 }
       );
-    }
-
-    if (!user.isAcceptingMessages) {
-      // Step 4: If user has disabled message reception, respond with 403
+    } catch (error) {
+      console.error('Error adding message:', error); // Step 8: Log the error for debugging
       return Response.json(
-        { message: 'User is not accepting messages',
-          success: false },
-        { status: 403 }
+        { message: 'Internal server error', success: false }, // Step 9: Respond with a 500 error
+        { status: 500 }
       );
     }
-    // Ye sab models ke andar hai
-    const newMessage = {
-      content,               // Message content from request
-      createdAt: new Date(), // Timestamp for when the message is created
-    };
-
-    user.messages.push(newMessage as Message); // Step 5: Push the new message into the user's messages array
-    await user.save(); // Step 6: Save the updated user document in MongoDB
-
-    return Response.json(
-      { message: 'Message sent successfully', 
-        success: true }, // Step 7: Respond with success
-      { status: 201 }
-    );
-  } catch (error) {
-    console.error('Error adding message:', error); // Step 8: Log the error for debugging
-    return Response.json(
-      { message: 'Internal server error', success: false }, // Step 9: Respond with a 500 error
-      { status: 500 }
-    );
   }
-}
+);
 
 /*
 ===============================
@@ -61,30 +215,40 @@ export async function POST(request: Request) {
 - Handles POST requests to send anonymous messages to users.
 - Takes in a username and message content.
 - Checks if the user exists and is currently accepting messages.
-- If all checks pass, appends the message to the user's messages array.
+- If all checks pass, stores the message in the `messages` collection with a `recipient` reference.
 
 🔁 Flow:
 1. Connect to the database.
-2. Parse incoming request to get username & content.
+2. Validate the body (username + content + category + optional linkSlug) against `sendMessageSchema` → 400 with field errors.
+   Rate limit per hashed IP and per recipient → 429 with `Retry-After`.
 3. Find the user by username.
 4. If user doesn't exist → return 404.
 5. If user is not accepting messages → return 403.
-6. Create a message object with content and timestamp.
-7. Push the message into user's `messages` array.
-8. Save user document to DB.
-9. Return a success or error response.
+   Outside the user's schedule (open/close dates, weekly IST windows) → return 403.
+   If sent through a named link: unknown link → 404, closed or expired link → 403.
+   The link's preset category replaces the one sent.
+   If user doesn't accept the chosen category → return 403.
+   If user only accepts campus-verified senders and the sender isn't one → return 403.
+6. Run moderation (word list + classifier). Flagged messages are blocked (422),
+   held for review (`status: 'held'`) or saved with `flagged: true` to be blurred,
+   depending on the recipient's `flaggedMessageAction`.
+   With `requireApproval` on, other messages arrive as `status: 'pending'`.
+7. Create a Message document with recipient, content, timestamp and the hashed reply token.
+   The plain token is returned once so the sender can open `/thread/<token>`.
+   The new message id is published on the event bus for the recipient's SSE stream.
+8. Return a success or error response.
 
 📦 Response Codes Used:
 - ✅ 201 → Message created successfully
-- 🚫 403 → User is not accepting messages
+- ⚠️ 400 → Invalid username or content (see `errors`)
+- 🚫 403 → User is not accepting messages (or not this category)
+- 🛑 422 → Message blocked by the recipient's content filter
+- ⏳ 429 → Too many messages (per sender IP or per recipient)
 - ❓ 404 → User not found
 - 💥 500 → Server error
 
 🌱 Extra Ideas (optional features to add later):
-- Add Zod validation for request body
-- Add rate limiting per IP or user
 - Add anonymous nickname for sender
-- Use WebSocket or Pusher to notify the user in real-time
 
 ===============================
 */
@@ -2,97 +2,152 @@ import dbConnect from '@/lib/dbConnect';
 import UserModel from '@/model/User';
 import bcrypt from 'bcryptjs';
 import { sendVerificationEmail } from '@/helpers/sendVerificationEmail';
+import { signUpSchema } from '@/schemas/signUpSchema';
+import { validatedHandler } from '@/lib/validatedHandler';
+import { generateOneTimeCode } from '@/lib/oneTimeCode';
+import {
+  VERIFY_CODE_RESEND_COOLDOWN_SECONDS,
+  VERIFY_CODE_TTL_MS,
+} from '@/lib/verifyCode';
 
-export async function POST(request: Request) {
-  await dbConnect();
+export const POST = validatedHandler(
+  { body: signUpSchema },
+  async (request, { body }) => {
+    await dbConnect();
 
-  try {
-    const { username, email, password } = await request.json();
+    try {
+      // Validated by the same schema as the sign-up form, including the institute email domain check
+      const { username, email, password } = body;
 
-    const existingVerifiedUserByUsername = await UserModel.findOne({
-      username,
-      isVerified: true,
-    });
-
-    if (existingVerifiedUserByUsername) {
-      return Response.json(
-        {
-          success: false,
-          message: 'Username is already taken',
-        },
-        { status: 400 }
-      );
-    }
-
-    const existingUserByEmail = await UserModel.findOne({ email });
-    let verifyCode = Math.floor(100000 + Math.random() * 900000).toString();
+      const existingVerifiedUserByUsername = await UserModel.findOne({
+        username,
+        isVerified: true,
+      });
 
-    if (existingUserByEmail) {
-      if (existingUserByEmail.isVerified) {
+      if (existingVerifiedUserByUsername) {
         return Response.json(
           {
             success: false,
-            message: 'User already exists with this email',
+            message: 'Username is already taken',
           },
           { status: 400 }
         );
+      }
+
+      const existingUserByEmail = await UserModel.findOne({ email });
+      const verifyCode = generateOneTimeCode();
+      const now = Date.now();
+
+      if (existingUserByEmail) {
+        if (existingUserByEmail.isVerified) {
+          return Response.json(
+            {
+              success: false,
+              message: 'User already exists with this email',
+            },
+            { status: 400 }
+          );
+        } else {
+          // Signing up again sends a new code, under the same cooldown as
+          // /api/resend-verification-code. The wrong-attempt counter is kept,
+          // so this can't be used to get fresh guesses either.
+          const updatedUser = await UserModel.findOneAndUpdate(
+            {
+              _id: existingUserByEmail._id,
+              $or: [
+                { verifyCodeSentAt: null },
+                {
+                  verifyCodeSentAt: {
+                    $lte: new Date(
+                      now - VERIFY_CODE_RESEND_COOLDOWN_SECONDS * 1000
+                    ),
+                  },
+                },
+              ],
+            },
+            {
+              $set: {
+                password: await bcrypt.hash(password, 10),
+                verifyCode,
+                verifyCodeExpiry: new Date(now + VERIFY_CODE_TTL_MS),
+                verifyCodeSentAt: new Date(now),
+              },
+            }
+          );
+
+          if (!updatedUser) {
+            // Another request may have just sent one, so fall back to a full cooldown
+            const cooldownEndsAt = existingUserByEmail.verifyCodeSentAt
+              ? new Date(existingUserByEmail.verifyCodeSentAt).getTime() +
+                VERIFY_CODE_RESEND_COOLDOWN_SECONDS * 1000
+              : 0;
+            const retryAfterSeconds =
+              cooldownEndsAt > now
+                ? Math.ceil((cooldownEndsAt - now) / 1000)
+                : VERIFY_CODE_RESEND_COOLDOWN_SECONDS;
+            return Response.json(
+              {
+                success: false,
+                message: `A verification code was just sent. Please wait ${retryAfterSeconds}s before trying again.`,
+                retryAfterSeconds,
+              },
+              {
+                status: 429,
+                headers: { 'Retry-After': retryAfterSeconds.toString() },
+              }
+            );
+          }
+        }
       } else {
         const hashedPassword = await bcrypt.hash(password, 10);
-        existingUserByEmail.password = hashedPassword;
-        existingUserByEmail.verifyCode = verifyCode;
-        existingUserByEmail.verifyCodeExpiry = new Date(Date.now() + 3600000);
-        await existingUserByEmail.save();
+
+        const newUser = new UserModel({
+          username,
+          email,
+          password: hashedPassword,
+          verifyCode,
+          verifyCodeExpiry: new Date(now + VERIFY_CODE_TTL_MS),
+          verifyCodeSentAt: new Date(now),
+          verifyCodeAttempts: 0,
+          isVerified: false,
+          isAcceptingMessages: true,
+        });
+
+        await newUser.save();
       }
-    } else {
-      const hashedPassword = await bcrypt.hash(password, 10);
-      const expiryDate = new Date();
-      expiryDate.setHours(expiryDate.getHours() + 1);
 
-      const newUser = new UserModel({
-        username,
+      // Send verification email
+      const emailResponse = await sendVerificationEmail(
         email,
-        password: hashedPassword,
-        verifyCode,
-        verifyCodeExpiry: expiryDate,
-        isVerified: false,
-        isAcceptingMessages: true,
-        messages: [],
-      });
-
-      await newUser.save();
-    }
+        username,
+        verifyCode
+      );
+      if (!emailResponse.success) {
+        return Response.json(
+          {
+            success: false,
+            message: emailResponse.message,
+          },
+          { status: 500 }
+        );
+      }
 
-    // Send verification email
-    const emailResponse = await sendVerificationEmail(
-      email,
-      username,
-      verifyCode
-    );
-    if (!emailResponse.success) {
+      return Response.json(
+        {
+          success: true,
+          message: 'User registered successfully. Please verify your account.',
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error('Error registering user:', error);
       return Response.json(
         {
           success: false,
-          message: emailResponse.message,
+          message: 'Error registering user',
         },
         { status: 500 }
       );
     }
-
-    return Response.json(
-      {
-        success: true,
-        message: 'User registered successfully. Please verify your account.',
-      },
-      { status: 201 }
-    );
-  } catch (error) {
-    console.error('Error registering user:', error);
-    return Response.json(
-      {
-        success: false,
-        message: 'Error registering user',
-      },
-      { status: 500 }
-    );
   }
-}
+);
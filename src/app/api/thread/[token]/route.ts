@@ -0,0 +1,177 @@
+import MessageModel, { MAX_THREAD_REPLIES } from '@/model/Message';
+import { User } from '@/model/User';
+import dbConnect from '@/lib/dbConnect';
+import { validatedHandler } from '@/lib/validatedHandler';
+import { replySchema, threadTokenParamsSchema } from '@/schemas/messageSchema';
+import { hashReplyToken } from '@/lib/replyToken';
+import { moderateMessage } from '@/lib/moderation';
+import { createRateLimiter, getClientIpHash } from '@/lib/rateLimit';
+import { getScheduleState } from '@/lib/acceptSchedule';
+
+// Thread routes are public: holding the token is the only proof of being the sender
+
+const threadReplyLimiter = createRateLimiter({
+  name: 'thread-reply:ip',
+  limit: 10,
+  windowMs: 60 * 1000,
+});
+
+export const GET = validatedHandler(
+  { params: threadTokenParamsSchema },
+  async (request, { params }) => {
+    await dbConnect();
+
+    try {
+      // Messages in Trash drop out of the conversation for both sides
+      const message = await MessageModel.findOne({
+        replyTokenHash: hashReplyToken(params.token),
+        deletedAt: null,
+      }).populate<{ recipient: User }>('recipient', 'username');
+
+      if (!message) {
+        return Response.json(
+          { message: 'Conversation not found', success: false },
+          { status: 404 }
+        );
+      }
+
+      return Response.json(
+        {
+          success: true,
+          thread: {
+            recipientUsername: message.recipient.username,
+            content: message.content,
+            createdAt: message.createdAt,
+            replies: message.replies,
+            reaction: message.reaction ?? null,
+          },
+        },
+        { status: 200 }
+      );
+    } catch (error) {
+      console.error('Error fetching conversation:', error);
+      return Response.json(
+        { message: 'Error fetching conversation', success: false },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+export const POST = validatedHandler(
+  { params: threadTokenParamsSchema, body: replySchema },
+  async (request, { params, body }) => {
+    await dbConnect();
+
+    try {
+      const limit = await threadReplyLimiter.consume(getClientIpHash(request));
+      if (!limit.allowed) {
+        return Response.json(
+          {
+            message:
+              'You are replying too quickly. Please wait a moment and try again.',
+            success: false,
+            retryAfterSeconds: limit.retryAfterSeconds,
+          },
+          {
+            status: 429,
+            headers: { 'Retry-After': limit.retryAfterSeconds.toString() },
+          }
+        );
+      }
+
+      const replyTokenHash = hashReplyToken(params.token);
+      const message = await MessageModel.findOne({
+        replyTokenHash,
+        deletedAt: null,
+      }).populate<{
+        recipient: User;
+      }>(
+        'recipient',
+        'flaggedMessageAction isAcceptingMessages acceptSchedule'
+      );
+
+      if (!message) {
+        return Response.json(
+          { message: 'Conversation not found', success: false },
+          { status: 404 }
+        );
+      }
+
+      // A closed board takes no replies either, same as new messages
+      if (
+        !message.recipient.isAcceptingMessages ||
+        !getScheduleState(message.recipient.acceptSchedule).isOpen
+      ) {
+        return Response.json(
+          {
+            message: 'This user is not accepting messages right now',
+            success: false,
+          },
+          { status: 403 }
+        );
+      }
+
+      // Sender replies go through the same content filter as new messages.
+      // Replies have no review queue, so with "hold" as well as "blur" a
+      // flagged reply is kept and shown blurred to the recipient.
+      const moderation = await moderateMessage(body.content);
+      if (
+        moderation.flagged &&
+        message.recipient.flaggedMessageAction === 'block'
+      ) {
+        return Response.json(
+          {
+            message:
+              "Your reply was blocked by this user's content filter. Please keep it respectful.",
+            success: false,
+          },
+          { status: 422 }
+        );
+      }
+
+      // The `replies.N` check keeps the push atomic and the thread capped
+      const updatedMessage = await MessageModel.findOneAndUpdate(
+        {
+          replyTokenHash,
+          deletedAt: null,
+          [`replies.${MAX_THREAD_REPLIES - 1}`]: { $exists: false },
+        },
+        {
+          $push: {
+            replies: {
+              author: 'sender',
+              content: body.content,
+              createdAt: new Date(),
+              flagged: moderation.flagged,
+              flagReasons: moderation.reasons,
+            },
+          },
+        },
+        { new: true, projection: { replies: { $slice: -1 } } }
+      );
+
+      if (!updatedMessage) {
+        return Response.json(
+          { message: 'This conversation is full', success: false },
+          { status: 409 }
+        );
+      }
+
+      return Response.json(
+        {
+          message: 'Reply sent',
+          success: true,
+          reply: updatedMessage.replies[0],
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error('Error replying in conversation:', error);
+      return Response.json(
+        { message: 'Error replying in conversation', success: false },
+        { status: 500 }
+      );
+    }
+  }
+);
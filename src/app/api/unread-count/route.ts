@@ -0,0 +1,34 @@
+import MessageModel, { messageViewFilter } from '@/model/Message';
+import { getServerSession } from 'next-auth/next';
+import dbConnect from '@/lib/dbConnect';
+import { User } from 'next-auth';
+import { authOptions } from '../auth/[...nextauth]/options';
+
+// Unread messages in the inbox, for the Navbar badge
+export async function GET(request: Request) {
+  await dbConnect();
+  const session = await getServerSession(authOptions);
+  const _user: User = session?.user;
+  if (!session || !_user) {
+    return Response.json(
+      { success: false, message: 'Not authenticated' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const unreadCount = await MessageModel.countDocuments({
+      recipient: _user._id,
+      ...messageViewFilter('accepted'),
+      isRead: { $ne: true },
+    });
+
+    return Response.json({ success: true, unreadCount }, { status: 200 });
+  } catch (error) {
+    console.error('Error counting unread messages:', error);
+    return Response.json(
+      { message: 'Error counting unread messages', success: false },
+      { status: 500 }
+    );
+  }
+}
@@ -2,80 +2,124 @@
 import dbConnect from '@/lib/dbConnect';
 // Import the User model from Mongoose schema
 import UserModel from '@/model/User';
+// Wrong-attempt limit shared with the resend route
+import { MAX_VERIFY_CODE_ATTEMPTS } from '@/lib/verifyCode';
+// Institute domain check for the campus-verified badge
+import { isInstituteEmail } from '@/lib/emailDomains';
+// Body validation
+import { validatedHandler } from '@/lib/validatedHandler';
+import { verifyCodeSchema } from '@/schemas/verifySchema';
 
 // Async POST handler to verify a user's account using a code
-export async function POST(request: Request) {
-  // Connect to the database
-  await dbConnect();
+export const POST = validatedHandler(
+  { body: verifyCodeSchema },
+  async (request, { body }) => {
+    // Connect to the database
+    await dbConnect();
 
-  try {
-    // Extract JSON body from the incoming request
-    const { username, code } = await request.json();
+    try {
+      // Body is already validated: a plain username (letters, digits, `_`) and a 6-digit code
+      const { username, code } = body;
 
-    // Decode the username in case it was URL-encoded (e.g., "john%20doe" → "john doe")
-    const decodedUsername = decodeURIComponent(username);
+      // Find the user in the database using the username
+      const user = await UserModel.findOne({ username });
 
-    // Find the user in the database using the decoded username
-    const user = await UserModel.findOne({ username: decodedUsername });
+      // If no user found, return 404 Not Found
+      if (!user) {
+        return Response.json(
+          { success: false, message: 'User not found' },
+          { status: 404 }
+        );
+      }
 
-    // If no user found, return 404 Not Found
-    if (!user) {
-      return Response.json(
-        { success: false, message: 'User not found' },
-        { status: 404 }
+      // Every guess is counted before the code is compared. The limit check and
+      // the $inc are one conditional update, so parallel guesses can't slip
+      // past the limit; after too many the code is locked until a new one is sent.
+      const attempt = await UserModel.findOneAndUpdate(
+        {
+          _id: user._id,
+          verifyCodeAttempts: { $lt: MAX_VERIFY_CODE_ATTEMPTS },
+        },
+        { $inc: { verifyCodeAttempts: 1 } },
+        { new: true }
       );
-    }
+      if (!attempt) {
+        return Response.json(
+          {
+            success: false,
+            message:
+              'Too many incorrect attempts. Please request a new verification code.',
+          },
+          { status: 429 }
+        );
+      }
 
-    // Check if the submitted verification code matches the stored code
-    const isCodeValid = user.verifyCode === code;
+      // Check if the submitted verification code matches the stored code
+      const isCodeValid = attempt.verifyCode === code;
 
-    // Check if the verification code has not expired (expiry time > current time)
-    const isCodeNotExpired = new Date(user.verifyCodeExpiry) > new Date();
+      // Check if the verification code has not expired (expiry time > current time)
+      const isCodeNotExpired = new Date(attempt.verifyCodeExpiry) > new Date();
 
-    // If both code is correct AND it's not expired, then proceed to verify the user
-    if (isCodeValid && isCodeNotExpired) {
-      // Set the user's verification status to true
-      user.isVerified = true;
+      // If both code is correct AND it's not expired, then proceed to verify the user
+      if (isCodeValid && isCodeNotExpired) {
+        // Set the user's verification status to true
+        attempt.isVerified = true;
+        attempt.verifyCodeAttempts = 0;
 
-      // Save the updated user document back to the database
-      await user.save();
+        // Email ownership is now proven, so an institute address earns the badge
+        attempt.isCampusVerified = isInstituteEmail(attempt.email);
 
-      // Respond with success if everything went fine
-      return Response.json(
-        { success: true,
-          message: 'Account verified successfully' },
-        { status: 200 }
-      );
-    } 
-    // If the code has expired (even if correct), prompt user to re-register
-    else if (!isCodeNotExpired) {
-      return Response.json(
-        {
-          success: false,
-          message:
-            'Verification code has expired. Please sign up again to get a new code.',
-        },
-        { status: 400 } // Bad request due to expiration
-      );
-    } 
-    // If the code is just wrong (but not expired), return an error
-    else {
+        // Save the updated user document back to the database
+        await attempt.save();
+
+        // Respond with success if everything went fine
+        return Response.json(
+          { success: true,
+            message: 'Account verified successfully' },
+          { status: 200 }
+        );
+      } 
+      // If the code has expired (even if correct), prompt user to request a new one
+      else if (!isCodeNotExpired) {
+        return Response.json(
+          {
+            success: false,
+            message:
+              'Verification code has expired. Please request a new code.',
+          },
+          { status: 400 } // Bad request due to expiration
+        );
+      } 
+      // If the code is just wrong (but not expired), return an error with the guesses left
+      else {
+        const attemptsLeft = Math.max(
+          MAX_VERIFY_CODE_ATTEMPTS - attempt.verifyCodeAttempts,
+          0
+        );
+
+        return Response.json(
+          {
+            success: false,
+            message:
+              attemptsLeft > 0
+                ? `Incorrect verification code. ${attemptsLeft} attempt(s) left.`
+                : 'Incorrect verification code. Please request a new verification code.',
+          },
+          { status: 400 } // Bad request due to invalid input
+        );
+      }
+    } catch (error) {
+      // Catch any unexpected errors (e.g., JSON parsing, DB issues) and log for debugging
+      console.error('Error verifying user:', error);
+
+      // Return a generic internal server error message
       return Response.json(
-        { success: false, message: 'Incorrect verification code' },
-        { status: 400 } // Bad request due to invalid input
+        { success: false, message: 'Error verifying user' },
+        { status: 500 }
       );
     }
-  } catch (error) {
-    // Catch any unexpected errors (e.g., JSON parsing, DB issues) and log for debugging
-    console.error('Error verifying user:', error);
-
-    // Return a generic internal server error message
-    return Response.json(
-      { success: false, message: 'Error verifying user' },
-      { status: 500 }
-    );
   }
-}
+);
 
 /**
  * ─── REVISE LATER (THEORY + FLOW + EXTRAS) ─────────────────────────────────────
@@ -90,19 +134,19 @@ export async function POST(request: Request) {
  * - If all conditions pass, the user is marked as verified.
  * 
  * 🔁 FLOW:
- * 1. Connect to MongoDB.
- * 2. Extract `username` and `code` from request body.
- * 3. Decode the username in case it has URL encoding.
- * 4. Find the user with the given username.
- * 5. If not found → return 404.
- * 6. If found → check if code matches and is not expired.
+ * 1. Validate `username` and `code` from request body (`verifyCodeSchema`) → 400 on bad input.
+ * 2. Connect to MongoDB.
+ * 3. Find the user with the given username.
+ * 4. If not found → return 404.
+ * 5. If found → check if code matches and is not expired.
  *    - If yes → set `isVerified = true` and save.
- *    - If code expired → ask to re-register.
- *    - If code is wrong → return error message.
- * 7. Catch any unexpected errors and return 500.
+ *    - If code expired → ask to request a new one (`/api/resend-verification-code`).
+ *    - Every guess is counted first, in one conditional update; after
+ *      MAX_VERIFY_CODE_ATTEMPTS guesses → 429 until a new code is sent.
+ *    - If code is wrong → return error message with the attempts left.
+ * 6. Catch any unexpected errors and return 500.
  * 
  * ✅ REMINDERS:
- * - Add rate-limiting to avoid brute-force on code.
  * - Make code comparison time-safe to prevent timing attacks.
  * - Make sure the `verifyCodeExpiry` is stored as ISO date in DB.
  * - Consider clearing `verifyCode` and `verifyCodeExpiry` after verification.
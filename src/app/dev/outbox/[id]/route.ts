@@ -0,0 +1,20 @@
+import { readOutboxHtml } from '@/lib/email/outboxTransport';
+
+// Serves the rendered HTML of one outbox email (development only)
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  if (process.env.NODE_ENV === 'production') {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const html = await readOutboxHtml(params.id);
+  if (html === null) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  return new Response(html, {
+    headers: { 'Content-Type': 'text/html; charset=utf-8' },
+  });
+}
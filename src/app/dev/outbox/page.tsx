@@ -0,0 +1,46 @@
+import { notFound } from 'next/navigation';
+import dayjs from 'dayjs';
+import { listOutbox } from '@/lib/email/outboxTransport';
+
+// Always read the outbox directory fresh
+export const dynamic = 'force-dynamic';
+
+// Dev-only inbox for emails written by the local outbox transport
+export default async function OutboxPage() {
+  if (process.env.NODE_ENV === 'production') {
+    notFound();
+  }
+
+  const emails = await listOutbox();
+
+  return (
+    <div className="container mx-auto my-8 p-6 bg-white rounded max-w-4xl">
+      <h1 className="text-4xl font-bold mb-2">Email Outbox</h1>
+      <p className="mb-6 text-gray-500">
+        Emails sent with <code>EMAIL_TRANSPORT=outbox</code>. Only available in
+        development.
+      </p>
+      {emails.length > 0 ? (
+        <ul className="divide-y border rounded">
+          {emails.map((email) => (
+            <li key={email.id}>
+              <a
+                href={`/dev/outbox/${email.id}`}
+                target="_blank"
+                className="block p-4 hover:bg-gray-50"
+              >
+                <div className="font-semibold">{email.subject}</div>
+                <div className="text-sm text-gray-500">
+                  To {email.to} · From {email.from} ·{' '}
+                  {dayjs(email.createdAt).format('MMM D, YYYY h:mm:ss A')}
+                </div>
+              </a>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p>No emails yet.</p>
+      )}
+    </div>
+  );
+}
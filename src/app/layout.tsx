@@ -9,6 +9,11 @@ const inter = Inter({ subsets: ['latin'] });
 export const metadata: Metadata = {
   title: 'True Feedback',
   description: 'Real feedback from real people.',
+  // Link previews need absolute image URLs. Without it Next.js falls back to
+  // the Vercel deployment URL, or localhost in development.
+  metadataBase: process.env.NEXTAUTH_URL
+    ? new URL(process.env.NEXTAUTH_URL)
+    : undefined,
 };
 
 interface RootLayoutProps {
@@ -0,0 +1,200 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import axios, { AxiosError } from 'axios';
+import dayjs from 'dayjs';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { CardHeader, CardContent, Card } from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormMessage,
+} from '@/components/ui/form';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/components/ui/use-toast';
+import * as z from 'zod';
+import { ApiResponse, MessageThread } from '@/types/ApiResponse';
+import { useParams } from 'next/navigation';
+import { replySchema } from '@/schemas/messageSchema';
+import { MESSAGE_REACTION_EMOJI } from '@/lib/reactions';
+
+export default function ThreadPage() {
+  const params = useParams<{ token: string }>();
+  const token = params.token;
+
+  const [thread, setThread] = useState<MessageThread | null>(null);
+  const [isThreadLoading, setIsThreadLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const form = useForm<z.infer<typeof replySchema>>({
+    resolver: zodResolver(replySchema),
+    defaultValues: { content: '' },
+  });
+
+  const replyContent = form.watch('content');
+
+  const fetchThread = useCallback(async () => {
+    setIsThreadLoading(true);
+    try {
+      const response = await axios.get<ApiResponse>(`/api/thread/${token}`);
+      setThread(response.data.thread ?? null);
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      if (
+        axiosError.response?.status === 404 ||
+        axiosError.response?.status === 400
+      ) {
+        setNotFound(true);
+        return;
+      }
+      toast({
+        title: 'Error',
+        description:
+          axiosError.response?.data.message ?? 'Failed to load conversation',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsThreadLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchThread();
+  }, [fetchThread]);
+
+  const onSubmit = async (data: z.infer<typeof replySchema>) => {
+    setIsLoading(true);
+    try {
+      const response = await axios.post<ApiResponse>(
+        `/api/thread/${token}`,
+        data
+      );
+      const reply = response.data.reply;
+      if (reply) {
+        setThread((current) =>
+          current ? { ...current, replies: [...current.replies, reply] } : current
+        );
+      }
+      form.reset({ content: '' });
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      toast({
+        title: 'Error',
+        description:
+          axiosError.response?.data.message ?? 'Failed to send reply',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (isThreadLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (notFound || !thread) {
+    return (
+      <div className="container mx-auto my-8 p-6 bg-white rounded max-w-4xl text-center">
+        <h1 className="text-2xl font-bold mb-4">Conversation not found</h1>
+        <p>Check that you copied the full link you were given.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto my-8 p-6 bg-white rounded max-w-4xl">
+      <h1 className="text-4xl font-bold mb-6 text-center">
+        Your conversation with @{thread.recipientUsername}
+      </h1>
+      <p className="text-center text-sm text-gray-600 mb-6">
+        You stay anonymous. Anyone with this link can read and reply, so keep
+        it private.
+      </p>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <div className="text-sm text-gray-600">
+            You wrote on {dayjs(thread.createdAt).format('MMM D, YYYY h:mm A')}
+          </div>
+          <h2 className="text-xl font-semibold">{thread.content}</h2>
+          {thread.reaction && (
+            <div className="text-sm text-gray-600">
+              @{thread.recipientUsername} reacted{' '}
+              <span className="text-lg">
+                {MESSAGE_REACTION_EMOJI[thread.reaction]}
+              </span>
+            </div>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {thread.replies.length === 0 ? (
+            <p className="text-sm text-gray-600">No replies yet.</p>
+          ) : (
+            thread.replies.map((reply) => (
+              <div
+                key={reply._id}
+                className={`rounded p-2 text-sm ${
+                  reply.author === 'sender' ? 'bg-gray-100 ml-8' : 'border mr-8'
+                }`}
+              >
+                <div className="font-semibold">
+                  {reply.author === 'sender'
+                    ? 'You'
+                    : `@${thread.recipientUsername}`}
+                </div>
+                <p>{reply.content}</p>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <FormField
+            control={form.control}
+            name="content"
+            render={({ field }) => (
+              <FormItem>
+                <FormControl>
+                  <Textarea
+                    placeholder="Write your anonymous reply here"
+                    className="resize-none"
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <div className="flex justify-center gap-2">
+            {isLoading ? (
+              <Button disabled>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Please wait
+              </Button>
+            ) : (
+              <Button type="submit" disabled={!replyContent}>
+                Send Reply
+              </Button>
+            )}
+            <Button type="button" variant="outline" onClick={fetchThread}>
+              Refresh
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import type { Metadata } from 'next';
+import { findShareProfile, toShareMetadata } from '@/lib/shareProfile';
+
+// A named feedback link uses the same send page; it reads the slug itself
+export { default } from '../page';
+
+export async function generateMetadata({
+  params,
+}: {
+  params: { username: string; slug: string };
+}): Promise<Metadata> {
+  return toShareMetadata(
+    await findShareProfile(params.username, params.slug),
+    `/u/${params.username}/${params.slug}`
+  );
+}
@@ -0,0 +1,20 @@
+// Twitter/X card image; the same card as the Open Graph image
+import { findShareProfile } from '@/lib/shareProfile';
+import {
+  renderShareImage,
+  SHARE_IMAGE_CONTENT_TYPE,
+  SHARE_IMAGE_SIZE,
+} from '@/lib/shareImage';
+
+export const alt = 'Answer anonymously on True Feedback';
+export const size = SHARE_IMAGE_SIZE;
+export const contentType = SHARE_IMAGE_CONTENT_TYPE;
+
+// Same card, with the named link's question as the prompt
+export default async function Image({
+  params,
+}: {
+  params: { username: string; slug: string };
+}) {
+  return renderShareImage(await findShareProfile(params.username, params.slug));
+}
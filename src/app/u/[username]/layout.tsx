@@ -0,0 +1,21 @@
+import type { Metadata } from 'next';
+import { findShareProfile, toShareMetadata } from '@/lib/shareProfile';
+
+type ProfileLayoutProps = {
+  children: React.ReactNode;
+  params: { username: string };
+};
+
+// The send page is a client component, so its metadata is generated here
+export async function generateMetadata({
+  params,
+}: ProfileLayoutProps): Promise<Metadata> {
+  return toShareMetadata(
+    await findShareProfile(params.username),
+    `/u/${params.username}`
+  );
+}
+
+export default function ProfileLayout({ children }: ProfileLayoutProps) {
+  return children;
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import axios, { AxiosError } from 'axios';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
@@ -20,10 +20,24 @@ import {
 import { Textarea } from '@/components/ui/textarea';
 import { toast } from '@/components/ui/use-toast';
 import * as z from 'zod';
-import { ApiResponse } from '@/types/ApiResponse';
+import { ApiResponse, PublicFeedbackLink } from '@/types/ApiResponse';
+import {
+  DEFAULT_MESSAGE_CATEGORY,
+  MESSAGE_CATEGORIES,
+  MESSAGE_CATEGORY_LABELS,
+  MessageCategory,
+} from '@/lib/messageCategories';
 import Link from 'next/link';
 import { useParams } from 'next/navigation';
 import { messageSchema } from '@/schemas/messageSchema';
+import { PublishedWall } from '@/components/PublishedWall';
+import { ScheduleCountdown } from '@/components/ScheduleCountdown';
+import { ProfileHeader } from '@/components/ProfileHeader';
+import {
+  DEFAULT_THEME_COLOR,
+  getThemeTextColor,
+  ProfileSettings,
+} from '@/lib/profile';
 
 const specialChar = '||';
 
@@ -34,9 +48,11 @@ const parseStringMessages = (messageString: string): string[] => {
 const initialMessageString =
   "What's your favorite movie?||Do you have any pets?||What's your dream job?";
 
+// Also rendered for named links at /u/[username]/[slug]
 export default function SendMessage() {
-  const params = useParams<{ username: string }>();
+  const params = useParams<{ username: string; slug?: string }>();
   const username = params.username;
+  const linkSlug = params.slug;
 
   const {
     complete,
@@ -50,8 +66,73 @@ export default function SendMessage() {
 
   const form = useForm<z.infer<typeof messageSchema>>({
     resolver: zodResolver(messageSchema),
+    defaultValues: { category: DEFAULT_MESSAGE_CATEGORY },
   });
 
+  // Only the topics this recipient accepts are offered
+  const [acceptedCategories, setAcceptedCategories] = useState<
+    MessageCategory[]
+  >([...MESSAGE_CATEGORIES]);
+  // The named link this page was opened through, with its question and preset
+  const [link, setLink] = useState<PublicFeedbackLink | null>(null);
+  const [isLinkNotFound, setIsLinkNotFound] = useState(false);
+  // Display name, bio, avatar, prompt and colour chosen by the recipient
+  const [profile, setProfile] = useState<ProfileSettings | null>(null);
+  // Whether the recipient's switch and schedule let messages in right now
+  const [isAccepting, setIsAccepting] = useState(true);
+  const [nextScheduleChangeAt, setNextScheduleChangeAt] = useState<
+    string | null
+  >(null);
+  // Bumped when the countdown runs out, to pick up the new schedule state
+  const [profileVersion, setProfileVersion] = useState(0);
+
+  const refreshProfile = useCallback(
+    () => setProfileVersion((version) => version + 1),
+    []
+  );
+
+  useEffect(() => {
+    axios
+      .get<ApiResponse>('/api/public-profile', {
+        params: { username, link: linkSlug },
+      })
+      .then((response) => {
+        if (response.data.profile) {
+          setProfile(response.data.profile);
+          setIsAccepting(response.data.profile.isAcceptingMessages);
+          setNextScheduleChangeAt(response.data.profile.nextScheduleChangeAt);
+        }
+
+        const profileLink = response.data.profile?.link;
+        if (profileLink) {
+          setLink(profileLink);
+          if (profileLink.category) {
+            form.setValue('category', profileLink.category);
+            return;
+          }
+        }
+
+        const categories = response.data.profile?.acceptedCategories;
+        if (!categories?.length) return;
+        setAcceptedCategories(categories);
+        if (!categories.includes(form.getValues('category'))) {
+          form.setValue('category', categories[0]);
+        }
+      })
+      .catch((error) => {
+        const axiosError = error as AxiosError<ApiResponse>;
+        if (linkSlug && axiosError.response?.status === 404) {
+          setIsLinkNotFound(true);
+          return;
+        }
+        // The send route still enforces categories, so the form stays usable
+        console.error('Error fetching profile:', error);
+      });
+  }, [username, linkSlug, form, profileVersion]);
+
+  const isLinkClosed = isLinkNotFound || (link !== null && !link.isOpen);
+  const themeColor = profile?.themeColor ?? DEFAULT_THEME_COLOR;
+
   const messageContent = form.watch('content');
 
   const handleMessageClick = (message: string) => {
@@ -59,6 +140,16 @@ export default function SendMessage() {
   };
 
   const [isLoading, setIsLoading] = useState(false);
+  // Link to the private conversation for the message just sent
+  const [threadUrl, setThreadUrl] = useState<string | null>(null);
+
+  const copyThreadUrl = () => {
+    if (!threadUrl) return;
+    navigator.clipboard.writeText(threadUrl);
+    toast({
+      title: 'Conversation link copied!',
+    });
+  };
 
   const onSubmit = async (data: z.infer<typeof messageSchema>) => {
     setIsLoading(true);
@@ -66,6 +157,7 @@ export default function SendMessage() {
       const response = await axios.post<ApiResponse>('/api/send-message', {
         ...data,
         username,
+        linkSlug,
       });
 
       toast({
@@ -73,8 +165,25 @@ export default function SendMessage() {
         variant: 'default',
       });
       form.reset({ ...form.getValues(), content: '' });
+      if (response.data.replyToken) {
+        setThreadUrl(
+          `${window.location.protocol}//${window.location.host}/thread/${response.data.replyToken}`
+        );
+      }
     } catch (error) {
       const axiosError = error as AxiosError<ApiResponse>;
+      if (axiosError.response?.status === 429) {
+        // Rate limited: explain the limit and when they can send again
+        const retryAfter =
+          axiosError.response.data.retryAfterSeconds ??
+          Number(axiosError.response.headers['retry-after']);
+        toast({
+          title: 'Slow down',
+          description: `${axiosError.response.data.message} You can send again in ${retryAfter} seconds.`,
+          variant: 'destructive',
+        });
+        return;
+      }
       toast({
         title: 'Error',
         description:
@@ -97,9 +206,31 @@ export default function SendMessage() {
 
   return (
     <div className="container mx-auto my-8 p-6 bg-white rounded max-w-4xl">
+      {profile && <ProfileHeader username={username} profile={profile} />}
       <h1 className="text-4xl font-bold mb-6 text-center">
-        Public Profile Link
+        {link?.question ?? profile?.customPrompt ?? 'Public Profile Link'}
       </h1>
+      {!isAccepting && !isLinkClosed && (
+        <p className="mb-2 rounded bg-gray-100 p-3 text-center">
+          @{username} is not accepting messages right now.
+        </p>
+      )}
+      {nextScheduleChangeAt && !isLinkClosed && (
+        <div className="mb-6">
+          <ScheduleCountdown
+            isOpen={isAccepting}
+            nextChangeAt={nextScheduleChangeAt}
+            onElapsed={refreshProfile}
+          />
+        </div>
+      )}
+      {isLinkClosed && (
+        <p className="mb-6 rounded bg-gray-100 p-3 text-center">
+          {isLinkNotFound
+            ? 'This feedback link does not exist.'
+            : 'This feedback link is closed and no longer takes messages.'}
+        </p>
+      )}
       <Form {...form}>
         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
           <FormField
@@ -107,7 +238,10 @@ export default function SendMessage() {
             name="content"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Send Anonymous Message to @{username}</FormLabel>
+                <FormLabel>
+                  Send Anonymous Message to{' '}
+                  {profile?.displayName || `@${username}`}
+                </FormLabel>
                 <FormControl>
                   <Textarea
                     placeholder="Write your anonymous message here"
@@ -119,6 +253,36 @@ export default function SendMessage() {
               </FormItem>
             )}
           />
+          <FormField
+            control={form.control}
+            name="category"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Topic</FormLabel>
+                <FormControl>
+                  <select
+                    className="border rounded p-2 w-full"
+                    {...field}
+                    // A link's preset topic can't be changed by the sender
+                    disabled={Boolean(link?.category)}
+                  >
+                    {link?.category && (
+                      <option value={link.category}>
+                        {MESSAGE_CATEGORY_LABELS[link.category]}
+                      </option>
+                    )}
+                    {!link?.category &&
+                      acceptedCategories.map((category) => (
+                        <option key={category} value={category}>
+                          {MESSAGE_CATEGORY_LABELS[category]}
+                        </option>
+                      ))}
+                  </select>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
           <div className="flex justify-center">
             {isLoading ? (
               <Button disabled>
@@ -126,7 +290,16 @@ export default function SendMessage() {
                 Please wait
               </Button>
             ) : (
-              <Button type="submit" disabled={isLoading || !messageContent}>
+              <Button
+                type="submit"
+                style={{
+                  backgroundColor: themeColor,
+                  color: getThemeTextColor(themeColor),
+                }}
+                disabled={
+                  isLoading || !messageContent || isLinkClosed || !isAccepting
+                }
+              >
                 Send It
               </Button>
             )}
@@ -134,6 +307,34 @@ export default function SendMessage() {
         </form>
       </Form>
 
+      {threadUrl && (
+        <Card className="mt-6">
+          <CardHeader>
+            <h3 className="text-lg font-semibold">
+              Keep this link to see replies and reactions
+            </h3>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <p className="text-sm text-gray-600">
+              @{username} can react or reply to your message while you stay
+              anonymous. This link is the only way back to the conversation
+              and it cannot be recovered, so save it somewhere private.
+            </p>
+            <div className="flex items-center">
+              <input
+                type="text"
+                value={threadUrl}
+                disabled
+                className="input input-bordered w-full p-2 mr-2"
+              />
+              <Button onClick={copyThreadUrl}>Copy</Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <PublishedWall username={username} />
+
       <div className="space-y-4 my-8">
         <div className="space-y-2">
           <Button
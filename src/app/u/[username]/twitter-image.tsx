@@ -0,0 +1,19 @@
+// Twitter/X card image; the same card as the Open Graph image
+import { findShareProfile } from '@/lib/shareProfile';
+import {
+  renderShareImage,
+  SHARE_IMAGE_CONTENT_TYPE,
+  SHARE_IMAGE_SIZE,
+} from '@/lib/shareImage';
+
+export const alt = 'Send an anonymous message on True Feedback';
+export const size = SHARE_IMAGE_SIZE;
+export const contentType = SHARE_IMAGE_CONTENT_TYPE;
+
+export default async function Image({
+  params,
+}: {
+  params: { username: string };
+}) {
+  return renderShareImage(await findShareProfile(params.username));
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  AcceptSchedule,
+  fromIstInputValue,
+  MAX_WEEKLY_WINDOWS,
+  toIstInputValue,
+  WEEKDAY_LABELS,
+  WeeklyWindow,
+} from '@/lib/acceptSchedule';
+
+type AcceptScheduleSettingsProps = {
+  schedule?: AcceptSchedule;
+  disabled?: boolean;
+  // Saves the schedule and reports the outcome; resolves once it's done
+  onSave: (schedule: AcceptSchedule) => Promise<unknown>;
+};
+
+// Editor for the open/close dates and weekly windows. All times are IST,
+// whatever the browser's own time zone.
+export function AcceptScheduleSettings({
+  schedule,
+  disabled,
+  onSave,
+}: AcceptScheduleSettingsProps) {
+  const [opensAt, setOpensAt] = useState('');
+  const [closesAt, setClosesAt] = useState('');
+  const [weeklyWindows, setWeeklyWindows] = useState<WeeklyWindow[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setOpensAt(toIstInputValue(schedule?.opensAt));
+    setClosesAt(toIstInputValue(schedule?.closesAt));
+    setWeeklyWindows(schedule?.weeklyWindows ?? []);
+  }, [schedule]);
+
+  const updateWindow = (index: number, change: Partial<WeeklyWindow>) => {
+    setWeeklyWindows((windows) =>
+      windows.map((window, i) =>
+        i === index ? { ...window, ...change } : window
+      )
+    );
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave({
+        opensAt: fromIstInputValue(opensAt),
+        closesAt: fromIstInputValue(closesAt),
+        weeklyWindows,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-2 rounded border p-4 space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="schedule-opens">Opens at (IST)</Label>
+          <Input
+            id="schedule-opens"
+            type="datetime-local"
+            value={opensAt}
+            onChange={(e) => setOpensAt(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="schedule-closes">Closes at (IST)</Label>
+          <Input
+            id="schedule-closes"
+            type="datetime-local"
+            value={closesAt}
+            onChange={(e) => setClosesAt(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Weekly windows (IST)</Label>
+        {weeklyWindows.map((window, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <select
+              className="border rounded p-2"
+              aria-label="Day"
+              value={window.day}
+              onChange={(e) =>
+                updateWindow(index, { day: Number(e.target.value) })
+              }
+            >
+              {WEEKDAY_LABELS.map((label, day) => (
+                <option key={label} value={day}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <Input
+              type="time"
+              className="w-32"
+              aria-label="From"
+              value={window.start}
+              onChange={(e) => updateWindow(index, { start: e.target.value })}
+            />
+            <span>to</span>
+            <Input
+              type="time"
+              className="w-32"
+              aria-label="Until"
+              value={window.end === '24:00' ? '23:59' : window.end}
+              onChange={(e) => updateWindow(index, { end: e.target.value })}
+            />
+            <Button
+              size="icon"
+              variant="ghost"
+              aria-label="Remove window"
+              onClick={() =>
+                setWeeklyWindows((windows) =>
+                  windows.filter((_, i) => i !== index)
+                )
+              }
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        {weeklyWindows.length < MAX_WEEKLY_WINDOWS && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() =>
+              setWeeklyWindows((windows) => [
+                ...windows,
+                { day: 5, start: '18:00', end: '23:00' },
+              ])
+            }
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            Add window
+          </Button>
+        )}
+        <p className="text-sm text-gray-500">
+          With windows set, messages are only taken inside them. Leave
+          everything empty to follow the switch alone.
+        </p>
+      </div>
+
+      <Button onClick={handleSave} disabled={disabled || isSaving}>
+        Save schedule
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,352 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import axios, { AxiosError } from 'axios';
+import dayjs from 'dayjs';
+import { Copy, Plus, QrCode, Trash2 } from 'lucide-react';
+import { FeedbackLink } from '@/model/FeedbackLink';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { LinkQrCode } from './LinkQrCode';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { ApiResponse } from '@/types/ApiResponse';
+import {
+  MESSAGE_CATEGORIES,
+  MESSAGE_CATEGORY_LABELS,
+  MessageCategory,
+} from '@/lib/messageCategories';
+
+export type FeedbackLinkWithCount = FeedbackLink & { messageCount: number };
+
+type FeedbackLinksProps = {
+  username: string;
+  profileUrl: string; // links live under it as /[slug]
+  onLinksChange?: (links: FeedbackLinkWithCount[]) => void;
+};
+
+// Named links under /u/[username], each with its own question, preset topic,
+// open/closed switch and expiry
+export function FeedbackLinks({
+  username,
+  profileUrl,
+  onLinksChange,
+}: FeedbackLinksProps) {
+  const { toast } = useToast();
+  const [links, setLinks] = useState<FeedbackLinkWithCount[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [title, setTitle] = useState('');
+  const [slug, setSlug] = useState('');
+  const [question, setQuestion] = useState('');
+  const [category, setCategory] = useState<MessageCategory | ''>('');
+  const [expiresOn, setExpiresOn] = useState('');
+  // The link whose QR code and poster options are shown
+  const [qrLinkId, setQrLinkId] = useState<string | null>(null);
+
+  const updateLinks = useCallback(
+    (next: FeedbackLinkWithCount[]) => {
+      setLinks(next);
+      onLinksChange?.(next);
+    },
+    [onLinksChange]
+  );
+
+  const fetchLinks = useCallback(async () => {
+    try {
+      const response = await axios.get<ApiResponse>('/api/feedback-links');
+      updateLinks(response.data.feedbackLinks ?? []);
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      toast({
+        title: 'Error',
+        description:
+          axiosError.response?.data.message ?? 'Failed to fetch feedback links',
+        variant: 'destructive',
+      });
+    }
+  }, [toast, updateLinks]);
+
+  useEffect(() => {
+    fetchLinks();
+  }, [fetchLinks]);
+
+  const showError = (error: unknown, fallback: string) => {
+    const axiosError = error as AxiosError<ApiResponse>;
+    toast({
+      title: 'Error',
+      description: axiosError.response?.data.message ?? fallback,
+      variant: 'destructive',
+    });
+  };
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    try {
+      const response = await axios.post<ApiResponse>('/api/feedback-links', {
+        title,
+        slug,
+        question,
+        category: category || undefined,
+        // The link stays open until the end of the chosen day
+        expiresAt: expiresOn
+          ? dayjs(expiresOn).endOf('day').toISOString()
+          : undefined,
+      });
+      toast({
+        title: response.data.message,
+      });
+      setTitle('');
+      setSlug('');
+      setQuestion('');
+      setCategory('');
+      setExpiresOn('');
+      setIsCreating(false);
+      fetchLinks();
+    } catch (error) {
+      showError(error, 'Failed to create feedback link');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleOpen = async (link: FeedbackLinkWithCount) => {
+    try {
+      await axios.patch<ApiResponse>(`/api/feedback-links/${link._id}`, {
+        isOpen: !link.isOpen,
+      });
+      updateLinks(
+        links.map((l) =>
+          l._id === link._id
+            ? ({ ...l, isOpen: !link.isOpen } as FeedbackLinkWithCount)
+            : l
+        )
+      );
+    } catch (error) {
+      showError(error, 'Failed to update feedback link');
+    }
+  };
+
+  const handleDelete = async (linkId: string) => {
+    try {
+      const response = await axios.delete<ApiResponse>(
+        `/api/feedback-links/${linkId}`
+      );
+      toast({
+        title: response.data.message,
+      });
+      updateLinks(links.filter((link) => link._id !== linkId));
+    } catch (error) {
+      showError(error, 'Failed to delete feedback link');
+    }
+  };
+
+  const copyLink = (url: string) => {
+    navigator.clipboard.writeText(url);
+    toast({
+      title: 'URL Copied!',
+      description: 'Feedback link has been copied to clipboard.',
+    });
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-lg font-semibold">Feedback Links</h2>
+        {!isCreating && (
+          <Button size="sm" variant="outline" onClick={() => setIsCreating(true)}>
+            <Plus className="mr-1 h-4 w-4" />
+            New link
+          </Button>
+        )}
+      </div>
+
+      {isCreating && (
+        <div className="mb-4 grid grid-cols-1 md:grid-cols-2 gap-3 rounded border p-4">
+          <div className="space-y-1">
+            <Label htmlFor="link-title">Name</Label>
+            <Input
+              id="link-title"
+              placeholder="DSA workshop"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="link-slug">Slug</Label>
+            <Input
+              id="link-slug"
+              placeholder="dsa-workshop"
+              value={slug}
+              onChange={(e) => setSlug(e.target.value.toLowerCase())}
+            />
+          </div>
+          <div className="space-y-1 md:col-span-2">
+            <Label htmlFor="link-question">Question shown to senders</Label>
+            <Input
+              id="link-question"
+              placeholder="How was the DSA workshop?"
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="link-category">Topic</Label>
+            <select
+              id="link-category"
+              className="border rounded p-2 w-full"
+              value={category}
+              onChange={(e) => setCategory(e.target.value as MessageCategory)}
+            >
+              <option value="">Let senders choose</option>
+              {MESSAGE_CATEGORIES.map((c) => (
+                <option key={c} value={c}>
+                  {MESSAGE_CATEGORY_LABELS[c]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="link-expiry">Closes after (optional)</Label>
+            <Input
+              id="link-expiry"
+              type="date"
+              value={expiresOn}
+              onChange={(e) => setExpiresOn(e.target.value)}
+            />
+          </div>
+          <div className="flex gap-2 md:col-span-2">
+            <Button
+              onClick={handleCreate}
+              disabled={isSaving || !title || !slug || !question}
+            >
+              Create link
+            </Button>
+            <Button variant="outline" onClick={() => setIsCreating(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {links.length > 0 ? (
+        <div className="space-y-2">
+          {links.map((link) => {
+            const url = `${profileUrl}/${link.slug}`;
+            const isExpired =
+              link.expiresAt !== undefined &&
+              new Date(link.expiresAt) <= new Date();
+            return (
+              <div key={link._id as string} className="rounded border p-3">
+                <div className="flex flex-col md:flex-row md:items-center gap-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-semibold">
+                      {link.title}{' '}
+                      <span className="text-sm font-normal text-gray-500">
+                        · {link.messageCount} messages
+                        {link.category &&
+                          ` · ${MESSAGE_CATEGORY_LABELS[link.category]}`}
+                        {link.expiresAt &&
+                          ` · ${isExpired ? 'expired' : 'closes'} ${dayjs(
+                            link.expiresAt
+                          ).format('MMM D, YYYY')}`}
+                      </span>
+                    </div>
+                    <div className="text-sm text-gray-600 truncate">
+                      {link.question}
+                    </div>
+                    <div className="text-sm text-gray-500 truncate">{url}</div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={link.isOpen}
+                      onCheckedChange={() => handleToggleOpen(link)}
+                      aria-label="Open for messages"
+                    />
+                    <span className="text-sm w-14">
+                      {link.isOpen ? 'Open' : 'Closed'}
+                    </span>
+                    <Button
+                      size="icon"
+                      variant="outline"
+                      aria-label="Copy link"
+                      onClick={() => copyLink(url)}
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant={qrLinkId === link._id ? 'secondary' : 'outline'}
+                      aria-label="QR code and poster"
+                      onClick={() =>
+                        setQrLinkId(
+                          qrLinkId === link._id ? null : (link._id as string)
+                        )
+                      }
+                    >
+                      <QrCode className="h-4 w-4" />
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          size="icon"
+                          variant="outline"
+                          aria-label="Delete link"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete this link?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            The link stops working right away. Messages that
+                            came through it stay in your inbox.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => handleDelete(link._id as string)}
+                          >
+                            Continue
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </div>
+                {qrLinkId === link._id && (
+                  <LinkQrCode
+                    url={url}
+                    username={username}
+                    linkSlug={link.slug}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        !isCreating && (
+          <p className="text-sm text-gray-500">
+            Create separate links for events, courses or surveys, each with
+            its own question.
+          </p>
+        )
+      )}
+    </div>
+  );
+}
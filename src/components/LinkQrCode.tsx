@@ -0,0 +1,82 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import axios from 'axios';
+import Link from 'next/link';
+import { Download, Printer, QrCode } from 'lucide-react';
+import { Button } from './ui/button';
+import { ApiResponse, PublicProfile } from '@/types/ApiResponse';
+import {
+  downloadSvg,
+  renderPosterSvg,
+  renderQrSvg,
+  toPosterContent,
+} from '@/lib/poster';
+
+type LinkQrCodeProps = {
+  url: string; // the link the code points to
+  username: string;
+  linkSlug?: string; // a named feedback link instead of the main profile
+};
+
+// QR code for a profile link, with SVG downloads and a printable A4 poster
+export function LinkQrCode({ url, username, linkSlug }: LinkQrCodeProps) {
+  const [profile, setProfile] = useState<PublicProfile | null>(null);
+  const qrSvg = useMemo(() => renderQrSvg(url), [url]);
+  const filename = linkSlug ? `${username}-${linkSlug}` : username;
+
+  // The poster shows the same name, prompt and colour as the public page
+  useEffect(() => {
+    axios
+      .get<ApiResponse>('/api/public-profile', {
+        params: { username, link: linkSlug },
+      })
+      .then((response) => setProfile(response.data.profile ?? null))
+      .catch((error) => console.error('Error fetching profile:', error));
+  }, [username, linkSlug]);
+
+  const posterHref = `/dashboard/poster${
+    linkSlug ? `?link=${encodeURIComponent(linkSlug)}` : ''
+  }`;
+
+  return (
+    <div className="mt-4 flex flex-col sm:flex-row items-center gap-4">
+      <div
+        className="h-36 w-36 shrink-0 border rounded"
+        role="img"
+        aria-label={`QR code for ${url}`}
+        // Generated locally from the URL, never from user-supplied markup
+        dangerouslySetInnerHTML={{ __html: qrSvg }}
+      />
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant="outline"
+          onClick={() => downloadSvg(qrSvg, `${filename}-qr.svg`)}
+        >
+          <QrCode className="mr-2 h-4 w-4" />
+          QR code (SVG)
+        </Button>
+        <Button
+          variant="outline"
+          disabled={!profile}
+          onClick={() =>
+            profile &&
+            downloadSvg(
+              renderPosterSvg(toPosterContent(profile, url)),
+              `${filename}-poster.svg`
+            )
+          }
+        >
+          <Download className="mr-2 h-4 w-4" />
+          A4 poster (SVG)
+        </Button>
+        <Button variant="outline" asChild>
+          <Link href={posterHref} target="_blank">
+            <Printer className="mr-2 h-4 w-4" />
+            Print poster / PDF
+          </Link>
+        </Button>
+      </div>
+    </div>
+  );
+}
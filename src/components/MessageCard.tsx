@@ -3,8 +3,19 @@
 import React, { useState } from 'react';
 import axios, { AxiosError } from 'axios';
 import dayjs from 'dayjs';
-import { X } from 'lucide-react';
-import { Message } from '@/model/User';
+import {
+  Archive,
+  ArchiveRestore,
+  Check,
+  Globe,
+  Mail,
+  MailOpen,
+  MessageCircle,
+  ShieldAlert,
+  Star,
+  X,
+} from 'lucide-react';
+import { Message, Reply } from '@/model/Message';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import {
   AlertDialog,
@@ -18,16 +29,231 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 import { Button } from './ui/button';
+import { Textarea } from './ui/textarea';
 import { useToast } from '@/components/ui/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import { ApiResponse } from '@/types/ApiResponse';
+import {
+  DEFAULT_MESSAGE_CATEGORY,
+  MESSAGE_CATEGORY_LABELS,
+} from '@/lib/messageCategories';
+import { getSearchTerms, splitHighlights } from '@/lib/searchHighlight';
+import { notifyUnreadCountChanged } from '@/lib/unreadCount';
+import {
+  MESSAGE_REACTION_EMOJI,
+  MESSAGE_REACTIONS,
+  MessageReaction,
+} from '@/lib/reactions';
+
+export type MessageFlags = Partial<
+  Pick<Message, 'isRead' | 'isStarred' | 'isArchived'>
+>;
 
 type MessageCardProps = {
   message: Message;
   onMessageDelete: (messageId: string) => void;
+  onMessageReviewed?: (messageId: string) => void;
+  onMessageRestore?: (message: Message) => void;
+  highlight?: string; // current dashboard search, marked in the content
+  onFlagsChange?: (messageId: string, flags: MessageFlags) => void;
+  onReactionChange?: (
+    messageId: string,
+    reaction: MessageReaction | null
+  ) => void;
+  // Bulk selection on the dashboard; no checkbox without a handler
+  isSelected?: boolean;
+  onSelectChange?: (messageId: string, selected: boolean) => void;
 };
 
-export function MessageCard({ message, onMessageDelete }: MessageCardProps) {
+export function MessageCard({
+  message,
+  onMessageDelete,
+  onMessageReviewed,
+  onMessageRestore,
+  highlight,
+  onFlagsChange,
+  onReactionChange,
+  isSelected = false,
+  onSelectChange,
+}: MessageCardProps) {
   const { toast } = useToast();
+  const isPending = message.status === 'pending' || message.status === 'held';
+  const isTrashed = Boolean(message.deletedAt);
+  // Replies, flags and publishing only apply to messages in the inbox tabs
+  const isActionable = !isPending && !isTrashed;
+  // Flagged messages stay blurred until the recipient chooses to read them
+  const [isRevealed, setIsRevealed] = useState(!message.flagged);
+  const [replies, setReplies] = useState<Reply[]>(message.replies ?? []);
+  // Flagged sender replies are blurred the same way, one at a time
+  const [revealedReplyIds, setRevealedReplyIds] = useState<Set<string>>(
+    new Set()
+  );
+  const [isReplying, setIsReplying] = useState(false);
+  const [replyContent, setReplyContent] = useState('');
+  const [isSendingReply, setIsSendingReply] = useState(false);
+  const [isPublished, setIsPublished] = useState(message.isPublished ?? false);
+  const [isAnswering, setIsAnswering] = useState(false);
+  const [answer, setAnswer] = useState(message.answer ?? '');
+  const [isPublishing, setIsPublishing] = useState(false);
+
+  // Pending messages are reviewed here: approve moves them to the inbox,
+  // discard drops them
+  const handleReview = async (action: 'approve' | 'discard') => {
+    try {
+      const response =
+        action === 'approve'
+          ? await axios.post<ApiResponse>(`/api/approve-message/${message._id}`)
+          : await axios.delete<ApiResponse>(
+              `/api/discard-message/${message._id}`
+            );
+      toast({
+        title: response.data.message,
+      });
+      onMessageReviewed?.(message._id);
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      toast({
+        title: 'Error',
+        description:
+          axiosError.response?.data.message ?? `Failed to ${action} message`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Replies show up for the sender on their private thread page
+  const handleReplySubmit = async () => {
+    setIsSendingReply(true);
+    try {
+      const response = await axios.post<ApiResponse>(
+        `/api/reply-message/${message._id}`,
+        { content: replyContent }
+      );
+      const reply = response.data.reply;
+      if (reply) {
+        setReplies((current) => [...current, reply]);
+      }
+      setReplyContent('');
+      setIsReplying(false);
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      toast({
+        title: 'Error',
+        description:
+          axiosError.response?.data.message ?? 'Failed to send reply',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSendingReply(false);
+    }
+  };
+
+  // Publishing puts the message and answer on the public /u/[username] wall
+  const handlePublish = async () => {
+    setIsPublishing(true);
+    try {
+      const response = await axios.post<ApiResponse>(
+        `/api/publish-message/${message._id}`,
+        { answer }
+      );
+      toast({
+        title: response.data.message,
+      });
+      setIsPublished(true);
+      setIsAnswering(false);
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      toast({
+        title: 'Error',
+        description:
+          axiosError.response?.data.message ?? 'Failed to publish message',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const handleUnpublish = async () => {
+    try {
+      const response = await axios.delete<ApiResponse>(
+        `/api/publish-message/${message._id}`
+      );
+      toast({
+        title: response.data.message,
+      });
+      setIsPublished(false);
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      toast({
+        title: 'Error',
+        description:
+          axiosError.response?.data.message ?? 'Failed to unpublish message',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Read, starred and archived toggles; the dashboard moves the card between
+  // tabs when a flag no longer matches the current one
+  const handleFlagChange = async (flags: MessageFlags) => {
+    try {
+      await axios.post<ApiResponse>(`/api/mark-message/${message._id}`, flags);
+      onFlagsChange?.(message._id, flags);
+      if (flags.isRead !== undefined || flags.isArchived !== undefined) {
+        notifyUnreadCountChanged();
+      }
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      toast({
+        title: 'Error',
+        description:
+          axiosError.response?.data.message ?? 'Failed to update message',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Clicking the current reaction again removes it
+  const handleReaction = async (reaction: MessageReaction) => {
+    const next = message.reaction === reaction ? null : reaction;
+    try {
+      await axios.post<ApiResponse>(`/api/react-message/${message._id}`, {
+        reaction: next,
+      });
+      onReactionChange?.(message._id, next);
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      toast({
+        title: 'Error',
+        description:
+          axiosError.response?.data.message ?? 'Failed to update reaction',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Restores from Trash; also the "Undo" action of the delete toast
+  const handleRestore = async () => {
+    try {
+      const response = await axios.post<ApiResponse>(
+        `/api/restore-message/${message._id}`
+      );
+      toast({
+        title: response.data.message,
+      });
+      onMessageRestore?.(message);
+      notifyUnreadCountChanged();
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      toast({
+        title: 'Error',
+        description:
+          axiosError.response?.data.message ?? 'Failed to restore message',
+        variant: 'destructive',
+      });
+    }
+  };
 
   const handleDeleteConfirm = async () => {
     try {
@@ -36,8 +262,14 @@ export function MessageCard({ message, onMessageDelete }: MessageCardProps) {
       );
       toast({
         title: response.data.message,
+        action: (
+          <ToastAction altText="Undo delete" onClick={handleRestore}>
+            Undo
+          </ToastAction>
+        ),
       });
       onMessageDelete(message._id);
+      notifyUnreadCountChanged();
 
     } catch (error) {
       const axiosError = error as AxiosError<ApiResponse>;
@@ -50,41 +282,361 @@ export function MessageCard({ message, onMessageDelete }: MessageCardProps) {
     } 
   };
 
+  const handlePurgeConfirm = async () => {
+    try {
+      const response = await axios.delete<ApiResponse>(
+        `/api/purge-message/${message._id}`
+      );
+      toast({
+        title: response.data.message,
+      });
+      onMessageDelete(message._id);
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      toast({
+        title: 'Error',
+        description:
+          axiosError.response?.data.message ??
+          'Failed to delete message permanently',
+        variant: 'destructive',
+      });
+    }
+  };
+
   return (
-    <Card className="card-bordered">
+    <Card
+      className={`card-bordered ${
+        isActionable && !message.isRead ? 'border-l-4 border-l-blue-600' : ''
+      }`}
+    >
       <CardHeader>
         <div className="flex justify-between items-center">
-          <CardTitle>{message.content}</CardTitle>
-          <AlertDialog>
-            <AlertDialogTrigger asChild>
-              <Button variant='destructive'>
-                <X className="w-5 h-5" />
+          {onSelectChange && (
+            <input
+              type="checkbox"
+              className="mr-3 h-4 w-4 shrink-0"
+              aria-label="Select message"
+              checked={isSelected}
+              onChange={(e) => onSelectChange(message._id, e.target.checked)}
+            />
+          )}
+          <CardTitle
+            className={`flex-1 ${isRevealed ? '' : 'blur-sm select-none'}`}
+            aria-hidden={!isRevealed}
+          >
+            {splitHighlights(message.content, getSearchTerms(highlight ?? '')).map(
+              (segment, index) =>
+                segment.isMatch ? (
+                  <mark key={index} className="bg-yellow-200 rounded-sm">
+                    {segment.text}
+                  </mark>
+                ) : (
+                  <React.Fragment key={index}>{segment.text}</React.Fragment>
+                )
+            )}
+          </CardTitle>
+          {isActionable && (
+            <div className="flex shrink-0 gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label={message.isStarred ? 'Unstar' : 'Star'}
+                onClick={() =>
+                  handleFlagChange({ isStarred: !message.isStarred })
+                }
+              >
+                <Star
+                  className={`w-5 h-5 ${
+                    message.isStarred ? 'fill-yellow-400 text-yellow-500' : ''
+                  }`}
+                />
               </Button>
-            </AlertDialogTrigger>
-            <AlertDialogContent>
-              <AlertDialogHeader>
-                <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
-                <AlertDialogDescription>
-                  This action cannot be undone. This will permanently delete
-                  this message.
-                </AlertDialogDescription>
-              </AlertDialogHeader>
-              <AlertDialogFooter>
-                <AlertDialogCancel>
-                  Cancel
-                </AlertDialogCancel>
-                <AlertDialogAction onClick={handleDeleteConfirm}>
-                  Continue
-                </AlertDialogAction>
-              </AlertDialogFooter>
-            </AlertDialogContent>
-          </AlertDialog>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label={message.isRead ? 'Mark as unread' : 'Mark as read'}
+                onClick={() => handleFlagChange({ isRead: !message.isRead })}
+              >
+                {message.isRead ? (
+                  <Mail className="w-5 h-5" />
+                ) : (
+                  <MailOpen className="w-5 h-5" />
+                )}
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label={message.isArchived ? 'Move to inbox' : 'Archive'}
+                onClick={() =>
+                  handleFlagChange({ isArchived: !message.isArchived })
+                }
+              >
+                {message.isArchived ? (
+                  <ArchiveRestore className="w-5 h-5" />
+                ) : (
+                  <Archive className="w-5 h-5" />
+                )}
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant='destructive'>
+                    <X className="w-5 h-5" />
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      This will move the message to Trash. You can restore it
+                      from there until it is deleted for good.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>
+                      Cancel
+                    </AlertDialogCancel>
+                    <AlertDialogAction onClick={handleDeleteConfirm}>
+                      Continue
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          )}
         </div>
-        <div className="text-sm">
+        <div className="flex items-center gap-2 text-sm">
           {dayjs(message.createdAt).format('MMM D, YYYY h:mm A')}
+          <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium">
+            {
+              MESSAGE_CATEGORY_LABELS[
+                message.category ?? DEFAULT_MESSAGE_CATEGORY
+              ]
+            }
+          </span>
         </div>
       </CardHeader>
-      <CardContent></CardContent>
+      <CardContent>
+        {message.flagged && (
+          <div className="flex flex-wrap items-center gap-2 text-sm text-amber-700">
+            <ShieldAlert className="w-4 h-4" />
+            <span>Flagged: {message.flagReasons.join(', ')}</span>
+            {!isRevealed && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsRevealed(true)}
+              >
+                Show message
+              </Button>
+            )}
+          </div>
+        )}
+        {isTrashed && (
+          <div className="mt-4 flex flex-wrap items-center gap-2">
+            {message.purgeAt && (
+              <span className="text-sm text-gray-500">
+                Deleted for good on{' '}
+                {dayjs(message.purgeAt).format('MMM D, YYYY')}
+              </span>
+            )}
+            <Button size="sm" variant="outline" onClick={handleRestore}>
+              <ArchiveRestore className="mr-1 w-4 h-4" />
+              Restore
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button size="sm" variant="destructive">
+                  <X className="mr-1 w-4 h-4" />
+                  Delete forever
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    This action cannot be undone. This will permanently delete
+                    this message.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={handlePurgeConfirm}>
+                    Continue
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        )}
+        {isPending && !isTrashed && (
+          <div className="mt-4 flex gap-2">
+            <Button size="sm" onClick={() => handleReview('approve')}>
+              <Check className="mr-1 w-4 h-4" />
+              Approve
+            </Button>
+            <Button
+              size="sm"
+              variant="destructive"
+              onClick={() => handleReview('discard')}
+            >
+              <X className="mr-1 w-4 h-4" />
+              Discard
+            </Button>
+          </div>
+        )}
+        {replies.length > 0 && (
+          <div className="mt-4 space-y-2">
+            {replies.map((reply) => (
+              <div
+                key={reply._id}
+                className={`rounded p-2 text-sm ${
+                  reply.author === 'recipient'
+                    ? 'bg-gray-100 ml-8'
+                    : 'border mr-8'
+                }`}
+              >
+                <div className="font-semibold">
+                  {reply.author === 'recipient' ? 'You' : 'Anonymous'}
+                </div>
+                {reply.flagged && (
+                  <div className="flex flex-wrap items-center gap-2 text-amber-700">
+                    <ShieldAlert className="w-4 h-4" />
+                    <span>Flagged: {reply.flagReasons?.join(', ')}</span>
+                    {!revealedReplyIds.has(reply._id) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          setRevealedReplyIds((current) =>
+                            new Set(current).add(reply._id)
+                          )
+                        }
+                      >
+                        Show reply
+                      </Button>
+                    )}
+                  </div>
+                )}
+                {reply.flagged && !revealedReplyIds.has(reply._id) ? (
+                  <p className="blur-sm select-none" aria-hidden>
+                    {reply.content}
+                  </p>
+                ) : (
+                  <p>{reply.content}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        {isActionable && (
+          <div className="mt-4 flex flex-wrap gap-1" aria-label="Reactions">
+            {MESSAGE_REACTIONS.map((reaction) => (
+              <button
+                key={reaction}
+                type="button"
+                aria-label={`React with ${reaction}`}
+                aria-pressed={message.reaction === reaction}
+                className={`rounded-full px-2 py-0.5 text-lg ${
+                  message.reaction === reaction
+                    ? 'bg-blue-100 ring-1 ring-blue-400'
+                    : 'opacity-60 hover:opacity-100'
+                }`}
+                onClick={() => handleReaction(reaction)}
+              >
+                {MESSAGE_REACTION_EMOJI[reaction]}
+              </button>
+            ))}
+          </div>
+        )}
+        {isActionable && isPublished && !isAnswering && (
+          <div className="mt-4 space-y-2 text-sm">
+            <div className="flex items-center gap-1 font-semibold text-green-700">
+              <Globe className="w-4 h-4" />
+              Published on your profile
+            </div>
+            <p>{answer}</p>
+          </div>
+        )}
+        {isActionable && isAnswering && (
+          <div className="mt-4 space-y-2">
+            <Textarea
+              placeholder="Write a public answer"
+              className="resize-none"
+              value={answer}
+              onChange={(e) => setAnswer(e.target.value)}
+            />
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={handlePublish}
+                disabled={isPublishing || !answer.trim()}
+              >
+                {isPublished ? 'Save Answer' : 'Publish'}
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setIsAnswering(false)}
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+        {isActionable &&
+          (isReplying ? (
+            <div className="mt-4 space-y-2">
+              <Textarea
+                placeholder="Write a reply to the sender"
+                className="resize-none"
+                value={replyContent}
+                onChange={(e) => setReplyContent(e.target.value)}
+              />
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={handleReplySubmit}
+                  disabled={isSendingReply || !replyContent.trim()}
+                >
+                  Send Reply
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setIsReplying(false)}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="mt-4 flex flex-wrap gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setIsReplying(true)}
+              >
+                <MessageCircle className="mr-1 w-4 h-4" />
+                Reply
+              </Button>
+              {!isAnswering && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setIsAnswering(true)}
+                >
+                  <Globe className="mr-1 w-4 h-4" />
+                  {isPublished ? 'Edit Answer' : 'Publish with Answer'}
+                </Button>
+              )}
+              {isPublished && (
+                <Button size="sm" variant="outline" onClick={handleUnpublish}>
+                  Unpublish
+                </Button>
+              )}
+            </div>
+          ))}
+      </CardContent>
     </Card>
   );
 }
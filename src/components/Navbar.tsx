@@ -1,17 +1,48 @@
 'use client'
 
-import React from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import Link from 'next/link';
+import axios from 'axios';
+import { Inbox } from 'lucide-react';
 import { useSession, signOut } from 'next-auth/react';
 import { Button } from './ui/button';
 import { User } from 'next-auth';
+import { ApiResponse } from '@/types/ApiResponse';
+import { UNREAD_COUNT_CHANGED_EVENT } from '@/lib/unreadCount';
+
+// How often the unread badge is refreshed while the page is open
+const UNREAD_POLL_INTERVAL_MS = 60 * 1000;
 
 function Navbar() {
   const { data: session } = useSession();
   const user : User = session?.user;
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const fetchUnreadCount = useCallback(async () => {
+    try {
+      const response = await axios.get<ApiResponse>('/api/unread-count');
+      setUnreadCount(response.data.unreadCount ?? 0);
+    } catch (error) {
+      // The badge is a nicety; a failed refresh keeps the last count
+      console.error('Error fetching unread count:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!session) return;
+
+    fetchUnreadCount();
+    const interval = setInterval(fetchUnreadCount, UNREAD_POLL_INTERVAL_MS);
+    window.addEventListener(UNREAD_COUNT_CHANGED_EVENT, fetchUnreadCount);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener(UNREAD_COUNT_CHANGED_EVENT, fetchUnreadCount);
+    };
+  }, [session, fetchUnreadCount]);
 
   return (
-    <nav className="p-4 md:p-6 shadow-md bg-gray-900 text-white">
+    <nav className="p-4 md:p-6 shadow-md bg-gray-900 text-white print:hidden">
       <div className="container mx-auto flex flex-col md:flex-row justify-between items-center">
         <a href="#" className="text-xl font-bold mb-4 md:mb-0">
           True Feedback
@@ -21,6 +52,18 @@ function Navbar() {
             <span className="mr-4">
               Welcome, {user.username || user.email}
             </span>
+            <Link
+              href="/dashboard"
+              className="relative mb-4 md:mb-0 md:mr-4"
+              aria-label={`${unreadCount} unread messages`}
+            >
+              <Inbox className="h-6 w-6" />
+              {unreadCount > 0 && (
+                <span className="absolute -top-2 -right-3 rounded-full bg-red-600 px-1.5 text-xs font-bold">
+                  {unreadCount > 99 ? '99+' : unreadCount}
+                </span>
+              )}
+            </Link>
             <Button onClick={() => signOut()} className="w-full md:w-auto bg-slate-100 text-black" variant='outline'>
               Logout
             </Button>
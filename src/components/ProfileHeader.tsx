@@ -0,0 +1,54 @@
+import React from 'react';
+import Image from 'next/image';
+import {
+  DEFAULT_THEME_COLOR,
+  getThemeTextColor,
+  ProfileSettings,
+} from '@/lib/profile';
+
+type ProfileHeaderProps = {
+  username: string;
+  profile: ProfileSettings;
+};
+
+// Avatar, name and bio at the top of /u/[username]; also used as the live
+// preview on the profile settings page
+export function ProfileHeader({ username, profile }: ProfileHeaderProps) {
+  const themeColor = profile.themeColor ?? DEFAULT_THEME_COLOR;
+  const name = profile.displayName || `@${username}`;
+
+  return (
+    <div className="flex flex-col items-center text-center mb-6">
+      {profile.avatarUrl ? (
+        <Image
+          src={profile.avatarUrl}
+          alt={name}
+          width={96}
+          height={96}
+          className="h-24 w-24 rounded-full object-cover border-4"
+          style={{ borderColor: themeColor }}
+        />
+      ) : (
+        <div
+          className="flex h-24 w-24 items-center justify-center rounded-full text-4xl font-bold"
+          style={{
+            backgroundColor: themeColor,
+            color: getThemeTextColor(themeColor),
+          }}
+          aria-hidden
+        >
+          {(profile.displayName || username).charAt(0).toUpperCase()}
+        </div>
+      )}
+      <h2 className="mt-3 text-2xl font-semibold">{name}</h2>
+      {profile.displayName && (
+        <p className="text-sm text-gray-500">@{username}</p>
+      )}
+      {profile.bio && (
+        <p className="mt-2 max-w-xl whitespace-pre-line text-gray-700">
+          {profile.bio}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import axios, { AxiosError } from 'axios';
+import dayjs from 'dayjs';
+import { ArrowDown, ArrowUp, EyeOff } from 'lucide-react';
+import { useSession } from 'next-auth/react';
+import { User } from 'next-auth';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from './ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { ApiResponse, PublishedMessage } from '@/types/ApiResponse';
+
+type PublishedWallProps = {
+  username: string;
+};
+
+// Answered questions the user chose to publish. The owner of the profile
+// gets controls to reorder and unpublish them in place.
+export function PublishedWall({ username }: PublishedWallProps) {
+  const { toast } = useToast();
+  const { data: session } = useSession();
+  const user: User = session?.user;
+  const isOwner = user?.username === username;
+
+  const [publishedMessages, setPublishedMessages] = useState<
+    PublishedMessage[]
+  >([]);
+
+  const fetchPublishedMessages = useCallback(async () => {
+    try {
+      const response = await axios.get<ApiResponse>(
+        '/api/published-messages',
+        { params: { username } }
+      );
+      setPublishedMessages(response.data.publishedMessages ?? []);
+    } catch (error) {
+      // A missing wall should never get in the way of sending a message
+      console.error('Error fetching published messages:', error);
+    }
+  }, [username]);
+
+  useEffect(() => {
+    fetchPublishedMessages();
+  }, [fetchPublishedMessages]);
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= publishedMessages.length) return;
+
+    const previous = publishedMessages;
+    const reordered = [...publishedMessages];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setPublishedMessages(reordered);
+
+    try {
+      await axios.put<ApiResponse>('/api/reorder-published', {
+        messageIds: reordered.map((message) => message._id),
+      });
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      setPublishedMessages(previous);
+      toast({
+        title: 'Error',
+        description:
+          axiosError.response?.data.message ?? 'Failed to save the new order',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleUnpublish = async (messageId: string) => {
+    try {
+      const response = await axios.delete<ApiResponse>(
+        `/api/publish-message/${messageId}`
+      );
+      toast({
+        title: response.data.message,
+      });
+      setPublishedMessages((current) =>
+        current.filter((message) => message._id !== messageId)
+      );
+    } catch (error) {
+      const axiosError = error as AxiosError<ApiResponse>;
+      toast({
+        title: 'Error',
+        description:
+          axiosError.response?.data.message ?? 'Failed to unpublish message',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (publishedMessages.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4 my-8">
+      <h2 className="text-2xl font-bold">Answered Questions</h2>
+      {publishedMessages.map((message, index) => (
+        <Card key={message._id}>
+          <CardHeader>
+            <div className="flex justify-between items-start gap-2">
+              <CardTitle className="text-lg">{message.content}</CardTitle>
+              {isOwner && (
+                <div className="flex gap-1">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    aria-label="Move up"
+                    disabled={index === 0}
+                    onClick={() => handleMove(index, -1)}
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    aria-label="Move down"
+                    disabled={index === publishedMessages.length - 1}
+                    onClick={() => handleMove(index, 1)}
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    aria-label="Unpublish"
+                    onClick={() => handleUnpublish(message._id)}
+                  >
+                    <EyeOff className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+            <div className="text-sm text-gray-600">
+              Answered {dayjs(message.publishedAt).format('MMM D, YYYY')}
+            </div>
+          </CardHeader>
+          <CardContent>
+            <p>{message.answer}</p>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
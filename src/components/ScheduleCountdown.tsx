@@ -0,0 +1,52 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { formatScheduleDate } from '@/lib/acceptSchedule';
+
+type ScheduleCountdownProps = {
+  isOpen: boolean;
+  nextChangeAt: string; // when the board opens or closes
+  onElapsed?: () => void; // the state has flipped; refetch it
+};
+
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(Math.ceil(ms / 1000), 0);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const clock = [hours, minutes, seconds]
+    .map((part) => part.toString().padStart(2, '0'))
+    .join(':');
+  return days > 0 ? `${days}d ${clock}` : clock;
+}
+
+// Live countdown to the next scheduled open or close of a board
+export function ScheduleCountdown({
+  isOpen,
+  nextChangeAt,
+  onElapsed,
+}: ScheduleCountdownProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const remaining = new Date(nextChangeAt).getTime() - now;
+  const hasElapsed = remaining <= 0;
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (hasElapsed) onElapsed?.();
+  }, [hasElapsed, onElapsed]);
+
+  return (
+    <p className="text-center text-sm text-gray-600">
+      {isOpen ? 'Closes in ' : 'Opens in '}
+      <span className="font-mono font-semibold">
+        {formatRemaining(remaining)}
+      </span>{' '}
+      ({formatScheduleDate(nextChangeAt)})
+    </p>
+  );
+}
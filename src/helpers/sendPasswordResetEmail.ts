@@ -0,0 +1,22 @@
+import { sendEmail } from "@/lib/email";
+import PasswordResetEmail from "../../emails/PasswordResetEmail";
+import { ApiResponse } from '@/types/ApiResponse';
+
+export async function sendPasswordResetEmail(
+  email: string,
+  username: string,
+  resetCode: string,
+  expiresInMinutes: number
+): Promise<ApiResponse> {
+  try {
+    await sendEmail({
+      to: email,
+      subject: 'Mystery Message Password Reset Code',
+      react: PasswordResetEmail({ username, otp: resetCode, expiresInMinutes }),
+    });
+    return { success: true, message: 'Password reset email sent successfully.' };
+  } catch (emailError) {
+    console.error('Error sending password reset email:', emailError);
+    return { success: false, message: 'Failed to send password reset email.' };
+  }
+}
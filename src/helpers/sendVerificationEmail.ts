@@ -1,4 +1,4 @@
-import { resend } from "@/lib/resend";
+import { sendEmail } from "@/lib/email";
 import VerificationEmail from "../../emails/VerificationEmail";
 import { ApiResponse } from '@/types/ApiResponse';
 
@@ -8,10 +8,8 @@ export async function sendVerificationEmail(
   verifyCode: string
 ): Promise<ApiResponse> {
   try {
-    await resend.emails.send({
-      
-      from: 'Acme <onboarding@resend.dev>',
-      to: ['aryanchess5135@gmail.com'],
+    await sendEmail({
+      to: email,
       subject: 'Mystery Message Verification Code',
       react: VerificationEmail({ username, otp: verifyCode }),
     });
@@ -0,0 +1,153 @@
+// Schedule rules for when a board takes messages, on top of the manual
+// "Accept Messages" switch. Weekly windows are wall-clock times in IST, which
+// has a fixed +05:30 offset and no daylight saving, so plain offset arithmetic
+// is enough. Kept free of mongoose so the dashboard and public page can use it.
+
+export const SCHEDULE_TIME_ZONE = 'Asia/Kolkata';
+const IST_OFFSET_MS = (5 * 60 + 30) * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export const MAX_WEEKLY_WINDOWS = 21;
+
+// Indexed like Date#getDay(): 0 is Sunday
+export const WEEKDAY_LABELS = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+] as const;
+
+export interface WeeklyWindow {
+  day: number; // 0 (Sunday) to 6
+  start: string; // "HH:mm" in IST
+  end: string; // "HH:mm" in IST, "24:00" for midnight; later than start
+}
+
+export interface AcceptSchedule {
+  opensAt?: Date | string | null; // no messages before this
+  closesAt?: Date | string | null; // no messages from this point on
+  weeklyWindows?: WeeklyWindow[]; // when set, messages only inside a window
+}
+
+export interface ScheduleState {
+  isOpen: boolean;
+  nextChangeAt: Date | null; // when isOpen next flips; null if it never does
+}
+
+// "HH:mm" to minutes after midnight
+export function parseScheduleTime(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export function hasAcceptSchedule(schedule?: AcceptSchedule | null): boolean {
+  return Boolean(
+    schedule &&
+      (schedule.opensAt ||
+        schedule.closesAt ||
+        (schedule.weeklyWindows && schedule.weeklyWindows.length > 0))
+  );
+}
+
+function toTime(value?: Date | string | null): number | null {
+  return value ? new Date(value).getTime() : null;
+}
+
+// Midnight IST of the day `time` falls on, as a UTC timestamp
+function startOfIstDay(time: number): number {
+  return Math.floor((time + IST_OFFSET_MS) / DAY_MS) * DAY_MS - IST_OFFSET_MS;
+}
+
+function isOpenAt(schedule: AcceptSchedule, time: number): boolean {
+  const opensAt = toTime(schedule.opensAt);
+  const closesAt = toTime(schedule.closesAt);
+  if (opensAt !== null && time < opensAt) return false;
+  if (closesAt !== null && time >= closesAt) return false;
+
+  const windows = schedule.weeklyWindows ?? [];
+  if (windows.length === 0) return true;
+
+  const dayStart = startOfIstDay(time);
+  const day = new Date(dayStart + IST_OFFSET_MS).getUTCDay();
+  const minute = (time - dayStart) / MINUTE_MS;
+  return windows.some(
+    (window) =>
+      window.day === day &&
+      parseScheduleTime(window.start) <= minute &&
+      minute < parseScheduleTime(window.end)
+  );
+}
+
+// Whether the schedule lets messages in at `now`, and when that changes.
+// The state can only flip at a rule boundary, so the next change is the
+// first boundary after `now` where the state differs. Weekly boundaries are
+// generated for the week after the board opens, which covers every window.
+export function getScheduleState(
+  schedule?: AcceptSchedule | null,
+  now: Date = new Date()
+): ScheduleState {
+  if (!schedule || !hasAcceptSchedule(schedule)) {
+    return { isOpen: true, nextChangeAt: null };
+  }
+
+  const nowTime = now.getTime();
+  const isOpen = isOpenAt(schedule, nowTime);
+  const opensAt = toTime(schedule.opensAt);
+  const closesAt = toTime(schedule.closesAt);
+
+  const boundaries: number[] = [];
+  if (opensAt !== null) boundaries.push(opensAt);
+  if (closesAt !== null) boundaries.push(closesAt);
+
+  const firstDay = startOfIstDay(Math.max(nowTime, opensAt ?? nowTime));
+  for (let offset = 0; offset <= 7; offset++) {
+    const dayStart = firstDay + offset * DAY_MS;
+    const day = new Date(dayStart + IST_OFFSET_MS).getUTCDay();
+    for (const window of schedule.weeklyWindows ?? []) {
+      if (window.day !== day) continue;
+      boundaries.push(dayStart + parseScheduleTime(window.start) * MINUTE_MS);
+      boundaries.push(dayStart + parseScheduleTime(window.end) * MINUTE_MS);
+    }
+  }
+
+  const nextChange = boundaries
+    .filter((time) => time > nowTime)
+    .sort((a, b) => a - b)
+    .find((time) => isOpenAt(schedule, time) !== isOpen);
+
+  return {
+    isOpen,
+    nextChangeAt: nextChange !== undefined ? new Date(nextChange) : null,
+  };
+}
+
+// e.g. "Mon, 21 Oct, 6:00 pm IST"
+export function formatScheduleDate(date: Date | string): string {
+  return (
+    new Date(date).toLocaleString('en-IN', {
+      timeZone: SCHEDULE_TIME_ZONE,
+      weekday: 'short',
+      day: 'numeric',
+      month: 'short',
+      hour: 'numeric',
+      minute: '2-digit',
+    }) + ' IST'
+  );
+}
+
+// Value for an <input type="datetime-local"> showing `date` in IST
+export function toIstInputValue(date?: Date | string | null): string {
+  if (!date) return '';
+  return new Date(new Date(date).getTime() + IST_OFFSET_MS)
+    .toISOString()
+    .slice(0, 16);
+}
+
+// Reads an <input type="datetime-local"> value as IST
+export function fromIstInputValue(value: string): Date | null {
+  return value ? new Date(`${value}:00+05:30`) : null;
+}
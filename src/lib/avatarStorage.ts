@@ -0,0 +1,77 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Avatars are kept on local disk, outside public/, and served through
+// /api/avatars/[filename]
+export const AVATAR_DIR = path.resolve(
+  process.env.AVATAR_DIR || '.uploads/avatars'
+);
+
+const AVATAR_CONTENT_TYPES = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  webp: 'image/webp',
+} as const;
+type AvatarExtension = keyof typeof AVATAR_CONTENT_TYPES;
+
+// File names are generated here, so only this shape is ever read back
+const AVATAR_FILE_PATTERN = /^[a-f0-9]{24}-[a-f0-9]{8}\.(png|jpg|webp)$/;
+
+// The declared MIME type comes from the browser, so the file's own signature
+// decides what it is. Anything that isn't PNG, JPEG or WebP is refused.
+function detectImageType(data: Buffer): AvatarExtension | null {
+  if (data.subarray(0, 8).equals(Buffer.from('89504e470d0a1a0a', 'hex'))) {
+    return 'png';
+  }
+  if (data.subarray(0, 3).equals(Buffer.from('ffd8ff', 'hex'))) {
+    return 'jpg';
+  }
+  if (
+    data.subarray(0, 4).toString('ascii') === 'RIFF' &&
+    data.subarray(8, 12).toString('ascii') === 'WEBP'
+  ) {
+    return 'webp';
+  }
+  return null;
+}
+
+// Writes a new avatar and returns its file name, or null if it isn't an image.
+// Every upload gets a fresh name, so served files can be cached forever.
+export async function saveAvatar(
+  userId: string,
+  data: Buffer
+): Promise<string | null> {
+  const extension = detectImageType(data);
+  if (!extension) return null;
+
+  const filename = `${userId}-${crypto.randomBytes(4).toString('hex')}.${extension}`;
+  await fs.mkdir(AVATAR_DIR, { recursive: true });
+  await fs.writeFile(path.join(AVATAR_DIR, filename), data);
+  return filename;
+}
+
+export async function readAvatar(
+  filename: string
+): Promise<{ data: Buffer; contentType: string } | null> {
+  if (!AVATAR_FILE_PATTERN.test(filename)) return null;
+
+  try {
+    const data = await fs.readFile(path.join(AVATAR_DIR, filename));
+    const extension = path.extname(filename).slice(1) as AvatarExtension;
+    return { data, contentType: AVATAR_CONTENT_TYPES[extension] };
+  } catch {
+    return null;
+  }
+}
+
+// A missing file is fine: the avatar is gone either way
+export async function deleteAvatar(filename: string): Promise<void> {
+  if (!AVATAR_FILE_PATTERN.test(filename)) return;
+
+  try {
+    await fs.unlink(path.join(AVATAR_DIR, filename));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+}
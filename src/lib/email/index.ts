@@ -0,0 +1,44 @@
+import { render } from '@react-email/render';
+import { EmailTransport } from './types';
+import { resendTransport } from './resendTransport';
+import { smtpTransport } from './smtpTransport';
+import { outboxTransport } from './outboxTransport';
+
+const transports: Record<string, EmailTransport> = {
+  resend: resendTransport,
+  smtp: smtpTransport,
+  outbox: outboxTransport,
+};
+
+// EMAIL_TRANSPORT picks the adapter. Without it, development writes to the
+// local outbox (works offline) and production sends through Resend.
+function getEmailTransport(): EmailTransport {
+  const name =
+    process.env.EMAIL_TRANSPORT ||
+    (process.env.NODE_ENV === 'production' ? 'resend' : 'outbox');
+
+  const transport = transports[name];
+  if (!transport) {
+    throw new Error(`Unknown EMAIL_TRANSPORT "${name}"`);
+  }
+  return transport;
+}
+
+const DEFAULT_EMAIL_FROM = 'MNNIT Insights <onboarding@resend.dev>';
+
+export async function sendEmail({
+  to,
+  subject,
+  react,
+}: {
+  to: string;
+  subject: string;
+  react: React.ReactElement;
+}): Promise<void> {
+  await getEmailTransport().send({
+    from: process.env.EMAIL_FROM || DEFAULT_EMAIL_FROM,
+    to,
+    subject,
+    html: render(react),
+  });
+}
@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { EmailTransport, OutgoingEmail } from './types';
+
+// Local development: emails are written to disk instead of being delivered,
+// and can be read at /dev/outbox
+export const OUTBOX_DIR = path.resolve(process.env.OUTBOX_DIR || '.outbox');
+
+export type OutboxEntry = Omit<OutgoingEmail, 'html'> & {
+  id: string;
+  createdAt: string;
+};
+
+// Ids are generated here and used as file names, so only this shape is ever read back
+const OUTBOX_ID_PATTERN = /^\d+-[a-f0-9]{8}$/;
+
+export const outboxTransport: EmailTransport = {
+  async send(email) {
+    const id = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+    const { html, ...meta } = email;
+    const entry: OutboxEntry = {
+      ...meta,
+      id,
+      createdAt: new Date().toISOString(),
+    };
+
+    await fs.mkdir(OUTBOX_DIR, { recursive: true });
+    await fs.writeFile(path.join(OUTBOX_DIR, `${id}.html`), html);
+    await fs.writeFile(
+      path.join(OUTBOX_DIR, `${id}.json`),
+      JSON.stringify(entry, null, 2)
+    );
+
+    console.log(`Email to ${email.to} written to outbox: ${id}`);
+  },
+};
+
+// Newest first
+export async function listOutbox(): Promise<OutboxEntry[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(OUTBOX_DIR);
+  } catch {
+    return []; // nothing has been sent yet
+  }
+
+  const entries = await Promise.all(
+    files
+      .filter((file) => file.endsWith('.json'))
+      .map(async (file) =>
+        JSON.parse(await fs.readFile(path.join(OUTBOX_DIR, file), 'utf8'))
+      )
+  );
+
+  return (entries as OutboxEntry[]).sort((a, b) =>
+    b.createdAt.localeCompare(a.createdAt)
+  );
+}
+
+export async function readOutboxHtml(id: string): Promise<string | null> {
+  if (!OUTBOX_ID_PATTERN.test(id)) return null;
+
+  try {
+    return await fs.readFile(path.join(OUTBOX_DIR, `${id}.html`), 'utf8');
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,29 @@
+import { Resend } from 'resend';
+import { EmailTransport } from './types';
+
+// Created lazily: the client throws without RESEND_API_KEY, which is only
+// required when this transport is used
+let client: Resend | undefined;
+
+function getClient(): Resend {
+  if (!client) {
+    client = new Resend(process.env.RESEND_API_KEY);
+  }
+  return client;
+}
+
+export const resendTransport: EmailTransport = {
+  async send({ from, to, subject, html }) {
+    // Resend reports a rejected send (bad key, unverified sender, ...) in the
+    // response instead of throwing, so it's rethrown for the callers to catch
+    const response = await getClient().emails.send({
+      from,
+      to: [to],
+      subject,
+      html,
+    });
+    if ('error' in response && response.error) {
+      throw new Error(`Resend rejected the email: ${response.error.message}`);
+    }
+  },
+};
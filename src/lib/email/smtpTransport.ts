@@ -0,0 +1,25 @@
+import nodemailer from 'nodemailer';
+import { EmailTransport } from './types';
+
+// Created lazily so the SMTP settings are only required when this transport is used
+let transporter: nodemailer.Transporter | undefined;
+
+function getTransporter(): nodemailer.Transporter {
+  if (!transporter) {
+    transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT || 587),
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined,
+    });
+  }
+  return transporter;
+}
+
+export const smtpTransport: EmailTransport = {
+  async send({ from, to, subject, html }) {
+    await getTransporter().sendMail({ from, to, subject, html });
+  },
+};
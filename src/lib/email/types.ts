@@ -0,0 +1,11 @@
+export interface OutgoingEmail {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+}
+
+// Every way of delivering mail (Resend, SMTP, local outbox) implements this
+export interface EmailTransport {
+  send(email: OutgoingEmail): Promise<void>;
+}
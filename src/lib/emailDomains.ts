@@ -0,0 +1,30 @@
+// Institute email domains, e.g. "mnnit.ac.in,cse.mnnit.ac.in".
+// NEXT_PUBLIC_ so the sign-up form can check it before submitting.
+// Set it to an empty string to open sign-up to any email address.
+const DEFAULT_ALLOWED_EMAIL_DOMAINS = 'mnnit.ac.in';
+
+export function getAllowedEmailDomains(): string[] {
+  return (
+    process.env.NEXT_PUBLIC_ALLOWED_EMAIL_DOMAINS ??
+    DEFAULT_ALLOWED_EMAIL_DOMAINS
+  )
+    .split(',')
+    .map((domain) => domain.trim().toLowerCase().replace(/^@/, ''))
+    .filter(Boolean);
+}
+
+// True when the email belongs to one of the institute domains or a subdomain
+// of one (student@mnnit.ac.in, student@cse.mnnit.ac.in)
+export function isInstituteEmail(email: string): boolean {
+  const domain = email.split('@').pop()?.trim().toLowerCase();
+  if (!domain) return false;
+
+  return getAllowedEmailDomains().some(
+    (allowed) => domain === allowed || domain.endsWith(`.${allowed}`)
+  );
+}
+
+// Sign-up check: with no domains configured anyone may register
+export function isAllowedSignUpEmail(email: string): boolean {
+  return getAllowedEmailDomains().length === 0 || isInstituteEmail(email);
+}
@@ -0,0 +1,41 @@
+import { EventBus } from './types';
+import { memoryEventBus } from './memoryEventBus';
+
+const eventBuses: Record<string, EventBus> = {
+  memory: memoryEventBus,
+};
+
+// EVENT_BUS picks the adapter. Only the in-process bus exists for now, which
+// is enough while the app runs as a single node.
+function getEventBus(): EventBus {
+  const name = process.env.EVENT_BUS || 'memory';
+
+  const bus = eventBuses[name];
+  if (!bus) {
+    throw new Error(`Unknown EVENT_BUS "${name}"`);
+  }
+  return bus;
+}
+
+// Published by send-message once a message is stored. Only the id travels
+// on the bus; the stream loads the message itself.
+export interface NewMessageEvent {
+  messageId: string;
+}
+
+function inboxTopic(recipientId: string): string {
+  return `inbox:${recipientId}`;
+}
+
+export function publishNewMessage(recipientId: string, event: NewMessageEvent) {
+  getEventBus().publish(inboxTopic(recipientId), event);
+}
+
+export function subscribeToInbox(
+  recipientId: string,
+  listener: (event: NewMessageEvent) => void
+): () => void {
+  return getEventBus().subscribe(inboxTopic(recipientId), (payload) =>
+    listener(payload as NewMessageEvent)
+  );
+}
@@ -0,0 +1,34 @@
+import { EventEmitter } from 'events';
+import { EventBus } from './types';
+
+// Single-node bus: events only reach subscribers in this Node.js process.
+// Running more than one instance needs an adapter backed by shared
+// infrastructure (Redis pub/sub, MongoDB change streams) instead.
+//
+// Next.js can load this module more than once (dev reloads, separate route
+// bundles), so the emitter lives on globalThis to stay a single instance.
+const globalForEvents = globalThis as typeof globalThis & {
+  memoryEventEmitter?: EventEmitter;
+};
+
+function getEmitter(): EventEmitter {
+  if (!globalForEvents.memoryEventEmitter) {
+    const emitter = new EventEmitter();
+    emitter.setMaxListeners(0); // one listener per open dashboard tab
+    globalForEvents.memoryEventEmitter = emitter;
+  }
+  return globalForEvents.memoryEventEmitter;
+}
+
+export const memoryEventBus: EventBus = {
+  publish(topic, payload) {
+    getEmitter().emit(topic, payload);
+  },
+  subscribe(topic, listener) {
+    const emitter = getEmitter();
+    emitter.on(topic, listener);
+    return () => {
+      emitter.off(topic, listener);
+    };
+  },
+};
@@ -0,0 +1,8 @@
+// Delivers events between route handlers, e.g. from send-message to an open
+// inbox stream. Listeners only run in the process that subscribed, so an
+// adapter decides how far a published event travels.
+export interface EventBus {
+  publish(topic: string, payload: unknown): void;
+  // Returns a function that removes the listener
+  subscribe(topic: string, listener: (payload: unknown) => void): () => void;
+}
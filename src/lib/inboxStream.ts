@@ -0,0 +1,59 @@
+import type { Message } from '@/model/Message';
+
+export const INBOX_STREAM_URL = '/api/message-stream';
+
+const INITIAL_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30 * 1000;
+
+// Listens to the dashboard's live message stream. EventSource reconnects by
+// itself after a dropped connection and resends the last event id; when the
+// server refuses the connection (restart, expired session) it gives up, so a
+// new one is opened with backoff, passing the last id seen for the backfill.
+// `onResync` runs when more was missed than the backfill replays, and the
+// list has to be reloaded. Returns a function that closes the stream for good.
+export function openInboxStream(
+  onMessage: (message: Message) => void,
+  onResync: () => void
+): () => void {
+  let source: EventSource | null = null;
+  let lastEventId: string | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let retryDelay = INITIAL_RETRY_MS;
+
+  const connect = () => {
+    source = new EventSource(
+      lastEventId
+        ? `${INBOX_STREAM_URL}?lastEventId=${lastEventId}`
+        : INBOX_STREAM_URL
+    );
+
+    source.onopen = () => {
+      retryDelay = INITIAL_RETRY_MS;
+    };
+
+    source.onmessage = (event: MessageEvent<string>) => {
+      if (event.lastEventId) lastEventId = event.lastEventId;
+      onMessage(JSON.parse(event.data) as Message);
+    };
+
+    source.addEventListener('resync', (event) => {
+      const { lastEventId: resyncId } = event as MessageEvent<string>;
+      if (resyncId) lastEventId = resyncId;
+      onResync();
+    });
+
+    source.onerror = () => {
+      if (source?.readyState !== EventSource.CLOSED) return;
+      source.close();
+      retryTimer = setTimeout(connect, retryDelay);
+      retryDelay = Math.min(retryDelay * 2, MAX_RETRY_MS);
+    };
+  };
+
+  connect();
+
+  return () => {
+    clearTimeout(retryTimer);
+    source?.close();
+  };
+}
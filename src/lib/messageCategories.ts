@@ -0,0 +1,26 @@
+// Topics a message can be filed under. Kept free of server imports so the
+// send form and the dashboard can use the same list.
+export const MESSAGE_CATEGORIES = [
+  'mess',
+  'hostel',
+  'academics',
+  'infrastructure',
+  'events',
+  'placements',
+  'general',
+] as const;
+export type MessageCategory = (typeof MESSAGE_CATEGORIES)[number];
+
+// Messages sent without a category, including those stored before categories
+// existed, are filed here
+export const DEFAULT_MESSAGE_CATEGORY: MessageCategory = 'general';
+
+export const MESSAGE_CATEGORY_LABELS: Record<MessageCategory, string> = {
+  mess: 'Mess',
+  hostel: 'Hostel',
+  academics: 'Academics',
+  infrastructure: 'Infrastructure',
+  events: 'Events & Clubs',
+  placements: 'Placements',
+  general: 'General',
+};
@@ -0,0 +1,36 @@
+import mongoose from 'mongoose';
+
+export type MessageCursor = {
+  createdAt: Date;
+  id: mongoose.Types.ObjectId;
+};
+
+// A cursor points at the last message of a page. Messages are ordered by
+// createdAt then _id (both descending), so the pair is unique and stable
+// even when several messages share a timestamp.
+export function encodeMessageCursor(createdAt: Date, id: string): string {
+  return Buffer.from(`${createdAt.toISOString()}|${id}`).toString('base64url');
+}
+
+export function decodeMessageCursor(cursor: string): MessageCursor | null {
+  const [isoDate, id] = Buffer.from(cursor, 'base64url')
+    .toString('utf8')
+    .split('|');
+  const createdAt = new Date(isoDate);
+
+  if (isNaN(createdAt.getTime()) || !mongoose.Types.ObjectId.isValid(id)) {
+    return null;
+  }
+
+  return { createdAt, id: new mongoose.Types.ObjectId(id) };
+}
+
+// Everything strictly "after" the cursor in (createdAt desc, _id desc) order
+export function messageCursorFilter({ createdAt, id }: MessageCursor) {
+  return {
+    $or: [
+      { createdAt: { $lt: createdAt } },
+      { createdAt, _id: { $lt: id } },
+    ],
+  };
+}
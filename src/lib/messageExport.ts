@@ -0,0 +1,73 @@
+import { Message } from '@/model/Message';
+
+// One message as it appears in a CSV/JSON export and on the printable report.
+// Plain values only, so the same record serialises the same way everywhere.
+export interface ExportedMessage {
+  id: string;
+  createdAt: string; // ISO 8601
+  category: string;
+  status: string;
+  content: string;
+  answer: string;
+  reaction: string;
+  replies: number;
+  isRead: boolean;
+  isStarred: boolean;
+  isArchived: boolean;
+  flagged: boolean;
+}
+
+export const EXPORT_FORMATS = ['csv', 'json'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Column order of the CSV header
+const CSV_COLUMNS: (keyof ExportedMessage)[] = [
+  'id',
+  'createdAt',
+  'category',
+  'status',
+  'content',
+  'answer',
+  'reaction',
+  'replies',
+  'isRead',
+  'isStarred',
+  'isArchived',
+  'flagged',
+];
+
+export function toExportedMessage(message: Message): ExportedMessage {
+  return {
+    id: message._id.toString(),
+    createdAt: new Date(message.createdAt).toISOString(),
+    // Fields missing on messages stored before they existed
+    category: message.category ?? 'general',
+    status: message.status ?? 'accepted',
+    content: message.content,
+    answer: message.answer ?? '',
+    reaction: message.reaction ?? '',
+    replies: message.replies?.length ?? 0,
+    isRead: Boolean(message.isRead),
+    isStarred: Boolean(message.isStarred),
+    isArchived: Boolean(message.isArchived),
+    flagged: Boolean(message.flagged),
+  };
+}
+
+// Quotes a field when needed (RFC 4180). Anonymous text starting with
+// = + - or @ is prefixed with ' so spreadsheets don't run it as a formula.
+function toCsvField(value: string | number | boolean): string {
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvHeader(): string {
+  return `${CSV_COLUMNS.join(',')}\r\n`;
+}
+
+export function toCsvRow(message: ExportedMessage): string {
+  return `${CSV_COLUMNS.map((column) => toCsvField(message[column])).join(',')}\r\n`;
+}
@@ -0,0 +1,50 @@
+import mongoose, { FilterQuery } from 'mongoose';
+import {
+  Message,
+  messageCategoryFilter,
+  messageViewFilter,
+  MessageView,
+} from '@/model/Message';
+import { MessageCategory } from '@/lib/messageCategories';
+
+export type MessageFilterOptions = {
+  status: MessageView;
+  category?: MessageCategory;
+  link?: string; // feedback link id
+  before?: Date;
+  after?: Date;
+  q?: string; // full-text search; "quoted" parts must match as phrases
+};
+
+// One recipient's messages narrowed by the dashboard filters. The list and
+// search routes both build their query here so the filters mean the same thing.
+export function buildMessageFilter(
+  recipient: mongoose.Types.ObjectId,
+  { status, category, link, before, after, q }: MessageFilterOptions
+): FilterQuery<Message> {
+  const filter: FilterQuery<Message> = {
+    recipient,
+    ...messageViewFilter(status),
+  };
+
+  if (category) {
+    filter.category = messageCategoryFilter(category);
+  }
+
+  if (link) {
+    filter.link = new mongoose.Types.ObjectId(link);
+  }
+
+  if (before || after) {
+    filter.createdAt = {
+      ...(before && { $lt: before }),
+      ...(after && { $gt: after }),
+    };
+  }
+
+  if (q) {
+    filter.$text = { $search: q };
+  }
+
+  return filter;
+}
@@ -0,0 +1,35 @@
+import { ModerationClassifier } from './types';
+import { normalize } from './wordList';
+
+// Phrases that read as threats or targeted harassment, in English and Hinglish
+const THREAT_PATTERNS = [
+  /\bkill (you|u|yourself|urself)\b/,
+  /\bkys\b/,
+  /\bi('ll| will) (hurt|find|beat) (you|u)\b/,
+  /\b(maar|mar) (dunga|dungi|denge|daalunga)\b/,
+  /\bdekh lunga\b/,
+  /\bjaan se maar\b/,
+];
+
+// Phone numbers in an anonymous message are usually someone being doxxed
+const PHONE_NUMBER_PATTERN = /(\+91[\s-]?)?[6-9]\d{9}\b/;
+
+/**
+ * Offline default classifier: pattern rules for threats and doxxing.
+ * Cheap enough to run on every message and needs no network access.
+ */
+export const heuristicClassifier: ModerationClassifier = {
+  async classify(content) {
+    const text = normalize(content);
+    const reasons: string[] = [];
+
+    if (THREAT_PATTERNS.some((pattern) => pattern.test(text))) {
+      reasons.push('Possible threat or harassment');
+    }
+    if (PHONE_NUMBER_PATTERN.test(content)) {
+      reasons.push('Contains a phone number');
+    }
+
+    return { flagged: reasons.length > 0, reasons };
+  },
+};
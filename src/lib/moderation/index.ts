@@ -0,0 +1,35 @@
+import { ModerationClassifier, ModerationResult } from './types';
+import { heuristicClassifier } from './heuristicClassifier';
+import { findBlockedWords } from './wordList';
+
+const classifiers: Record<string, ModerationClassifier> = {
+  heuristic: heuristicClassifier,
+};
+
+// MODERATION_CLASSIFIER picks the classifier; the offline heuristic one is the default
+function getModerationClassifier(): ModerationClassifier {
+  const name = process.env.MODERATION_CLASSIFIER || 'heuristic';
+
+  const classifier = classifiers[name];
+  if (!classifier) {
+    throw new Error(`Unknown MODERATION_CLASSIFIER "${name}"`);
+  }
+  return classifier;
+}
+
+// Runs every check before a message is saved. The recipient's
+// flaggedMessageAction decides what happens to a flagged message.
+export async function moderateMessage(
+  content: string
+): Promise<ModerationResult> {
+  const reasons: string[] = [];
+
+  if (findBlockedWords(content).length > 0) {
+    reasons.push('Contains offensive language');
+  }
+
+  const classification = await getModerationClassifier().classify(content);
+  reasons.push(...classification.reasons);
+
+  return { flagged: reasons.length > 0, reasons };
+}
@@ -0,0 +1,14 @@
+export type ModerationResult = {
+  flagged: boolean;
+  reasons: string[]; // human-readable, shown to the recipient on flagged messages
+};
+
+// A classifier scores free text. The default runs offline; a hosted model
+// can be plugged in by implementing this interface.
+export interface ModerationClassifier {
+  classify(content: string): Promise<ModerationResult>;
+}
+
+// What a recipient wants done with messages the pipeline flags
+export const FLAGGED_MESSAGE_ACTIONS = ['block', 'hold', 'blur'] as const;
+export type FlaggedMessageAction = (typeof FLAGGED_MESSAGE_ACTIONS)[number];
@@ -0,0 +1,86 @@
+// Default profanity/slur list, English and Hinglish. Matched against whole
+// words after normalisation (see normalize below), so "$h1t" matches "shit".
+// Extend it per deployment with MODERATION_BLOCKED_WORDS="word1,word2".
+const DEFAULT_BLOCKED_WORDS = [
+  // English
+  'fuck',
+  'fucker',
+  'fucking',
+  'motherfucker',
+  'shit',
+  'bitch',
+  'bastard',
+  'asshole',
+  'cunt',
+  'dick',
+  'slut',
+  'whore',
+  'retard',
+  'faggot',
+  // Hinglish
+  'chutiya',
+  'chutiye',
+  'chootiya',
+  'chootiye',
+  'madarchod',
+  'bhenchod',
+  'behenchod',
+  'bhosdike',
+  'bhosdi',
+  'gaand',
+  'gandu',
+  'gaandu',
+  'lund',
+  'lavda',
+  'lauda',
+  'randi',
+  'harami',
+  'kutta',
+  'kutti',
+  'kamina',
+  'kamine',
+  'bsdk',
+];
+
+const LEET_REPLACEMENTS: Record<string, string> = {
+  '0': 'o',
+  '1': 'i',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '@': 'a',
+  $: 's',
+};
+
+// Lowercase, undo common letter substitutions and collapse stretched letters
+// ("fuuuck" → "fuck"), so simple obfuscation doesn't slip through
+export function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[013457@$]/g, (char) => LEET_REPLACEMENTS[char])
+    .replace(/(.)\1{2,}/g, '$1');
+}
+
+let blockedWords: Set<string> | undefined;
+
+export function getBlockedWords(): Set<string> {
+  if (!blockedWords) {
+    const extraWords = (process.env.MODERATION_BLOCKED_WORDS || '')
+      .split(',')
+      .map((word) => normalize(word.trim()))
+      .filter(Boolean);
+    blockedWords = new Set([
+      ...DEFAULT_BLOCKED_WORDS.map(normalize),
+      ...extraWords,
+    ]);
+  }
+  return blockedWords;
+}
+
+// Blocked words found in the text (deduplicated, normalised form)
+export function findBlockedWords(text: string): string[] {
+  const words = getBlockedWords();
+  const tokens = normalize(text).split(/[^a-z]+/).filter(Boolean);
+  return Array.from(new Set(tokens.filter((token) => words.has(token))));
+}
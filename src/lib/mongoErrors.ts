@@ -0,0 +1,12 @@
+import mongoose from 'mongoose';
+
+// Duplicate key error code returned by MongoDB
+const DUPLICATE_KEY = 11000;
+
+// A write broke a unique index, e.g. a slug or counter key that already exists
+export function isDuplicateKeyError(error: unknown): boolean {
+  return (
+    error instanceof mongoose.mongo.MongoServerError &&
+    error.code === DUPLICATE_KEY
+  );
+}
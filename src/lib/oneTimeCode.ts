@@ -0,0 +1,20 @@
+import crypto from 'crypto';
+
+// 6-digit numeric code, same format as the sign-up verification code
+export function generateOneTimeCode(): string {
+  return crypto.randomInt(100000, 1000000).toString();
+}
+
+// Codes that grant access (e.g. password reset) are stored hashed,
+// so a leaked database dump can't be used to take over accounts
+export function hashOneTimeCode(code: string): string {
+  return crypto.createHash('sha256').update(code).digest('hex');
+}
+
+export function isOneTimeCodeMatch(code: string, hashedCode: string): boolean {
+  const hashed = Buffer.from(hashOneTimeCode(code), 'hex');
+  const expected = Buffer.from(hashedCode, 'hex');
+  return (
+    hashed.length === expected.length && crypto.timingSafeEqual(hashed, expected)
+  );
+}
@@ -0,0 +1,142 @@
+import QRCode from 'qrcode';
+import {
+  DEFAULT_SHARE_PROMPT,
+  DEFAULT_THEME_COLOR,
+  getThemeTextColor,
+} from '@/lib/profile';
+import type { PublicProfile } from '@/types/ApiResponse';
+
+// QR codes and the printable poster are built as SVG in the browser, so no
+// profile URL is ever sent to a third-party QR service.
+
+// "M" survives a scuffed or partly covered poster without making the code dense
+const QR_ERROR_CORRECTION = 'M';
+const QR_QUIET_ZONE = 4; // modules of white border required by the spec
+
+// One path for all dark modules, in module units including the quiet zone
+function toQrPath(text: string): { path: string; size: number } {
+  const { modules } = QRCode.create(text, {
+    errorCorrectionLevel: QR_ERROR_CORRECTION,
+  });
+  const commands: string[] = [];
+  for (let row = 0; row < modules.size; row++) {
+    for (let col = 0; col < modules.size; col++) {
+      if (modules.get(row, col)) {
+        const x = col + QR_QUIET_ZONE;
+        const y = row + QR_QUIET_ZONE;
+        commands.push(`M${x} ${y}h1v1h-1z`);
+      }
+    }
+  }
+  return { path: commands.join(''), size: modules.size + QR_QUIET_ZONE * 2 };
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// SVG text doesn't wrap, so long prompts are split into lines by hand
+function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && `${line} ${word}`.length > maxChars) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+
+  if (lines.length > maxLines) {
+    lines.length = maxLines;
+    lines[maxLines - 1] = `${lines[maxLines - 1].slice(0, maxChars - 1)}…`;
+  }
+  return lines;
+}
+
+// A standalone QR code for `url`, scaled by the viewer
+export function renderQrSvg(url: string): string {
+  const { path, size } = toQrPath(url);
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">`,
+    `<rect width="${size}" height="${size}" fill="#ffffff"/>`,
+    `<path d="${path}" fill="#000000"/>`,
+    '</svg>',
+  ].join('');
+}
+
+export interface PosterContent {
+  url: string;
+  name: string; // display name or @username
+  prompt: string;
+  themeColor?: string | null;
+}
+
+// Poster text for a profile, or for one of its named links
+export function toPosterContent(
+  profile: PublicProfile,
+  url: string
+): PosterContent {
+  return {
+    url,
+    name: profile.displayName || `@${profile.username}`,
+    prompt:
+      profile.link?.question ?? profile.customPrompt ?? DEFAULT_SHARE_PROMPT,
+    themeColor: profile.themeColor,
+  };
+}
+
+// An A4 portrait poster in millimetres: the prompt, a large QR code and the
+// URL for anyone who can't scan. Prints at true size from any SVG viewer.
+export function renderPosterSvg({
+  url,
+  name,
+  prompt,
+  themeColor,
+}: PosterContent): string {
+  const color = themeColor ?? DEFAULT_THEME_COLOR;
+  const textColor = getThemeTextColor(color);
+  const qr = toQrPath(url);
+  const qrWidth = 130;
+  const qrX = (210 - qrWidth) / 2;
+  const qrY = 118;
+  const promptLines = wrapText(prompt, 24, 3);
+  const font = 'font-family="Helvetica, Arial, sans-serif"';
+
+  return [
+    '<svg xmlns="http://www.w3.org/2000/svg" width="210mm" height="297mm" viewBox="0 0 210 297">',
+    '<rect width="210" height="297" fill="#ffffff"/>',
+    `<rect width="210" height="110" fill="${escapeXml(color)}"/>`,
+    `<text x="105" y="24" text-anchor="middle" ${font} font-size="7" fill="${textColor}" letter-spacing="0.6">ANONYMOUS FEEDBACK FOR ${escapeXml(name.toUpperCase())}</text>`,
+    ...promptLines.map(
+      (line, index) =>
+        `<text x="105" y="${50 + index * 17}" text-anchor="middle" ${font} font-size="14" font-weight="bold" fill="${textColor}">${escapeXml(line)}</text>`
+    ),
+    `<svg x="${qrX}" y="${qrY}" width="${qrWidth}" height="${qrWidth}" viewBox="0 0 ${qr.size} ${qr.size}" shape-rendering="crispEdges">`,
+    `<path d="${qr.path}" fill="#000000"/>`,
+    '</svg>',
+    `<text x="105" y="${qrY + qrWidth + 12}" text-anchor="middle" ${font} font-size="9" fill="#111827">Scan to answer. Nobody sees who you are.</text>`,
+    `<text x="105" y="${qrY + qrWidth + 22}" text-anchor="middle" font-family="Menlo, Consolas, monospace" font-size="5" fill="#4b5563">${escapeXml(url)}</text>`,
+    `<text x="105" y="287" text-anchor="middle" ${font} font-size="5" fill="#9ca3af">True Feedback</text>`,
+    '</svg>',
+  ].join('');
+}
+
+// Saves generated SVG markup as a file
+export function downloadSvg(svg: string, filename: string) {
+  const blobUrl = URL.createObjectURL(
+    new Blob([svg], { type: 'image/svg+xml' })
+  );
+  const anchor = document.createElement('a');
+  anchor.href = blobUrl;
+  anchor.download = filename;
+  anchor.click();
+  URL.revokeObjectURL(blobUrl);
+}
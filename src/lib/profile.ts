@@ -0,0 +1,57 @@
+// Limits and defaults for the public profile on /u/[username]. Kept free of
+// server-only imports so the settings page and the send page can use them.
+
+export const MAX_DISPLAY_NAME_LENGTH = 50;
+export const MAX_BIO_LENGTH = 280;
+export const MAX_CUSTOM_PROMPT_LENGTH = 120;
+
+// Used for buttons and accents when the user hasn't picked a colour
+export const DEFAULT_THEME_COLOR = '#111827';
+export const THEME_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+// Invitation used by link previews and posters when there's no custom prompt
+export const DEFAULT_SHARE_PROMPT = 'Send me an anonymous message';
+
+export const MAX_AVATAR_BYTES = 1024 * 1024;
+export const AVATAR_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+// Avatars are stored by file name and served by /api/avatars/[filename]
+export function getAvatarUrl(avatar?: string | null): string | null {
+  return avatar ? `/api/avatars/${avatar}` : null;
+}
+
+export interface ProfileSettings {
+  displayName: string | null;
+  bio: string | null;
+  avatarUrl: string | null;
+  customPrompt: string | null;
+  themeColor: string | null;
+}
+
+type ProfileFields = {
+  displayName?: string;
+  bio?: string;
+  avatar?: string;
+  customPrompt?: string;
+  themeColor?: string;
+};
+
+// The public part of a user document; unset fields come back as null
+export function toProfileSettings(user: ProfileFields): ProfileSettings {
+  return {
+    displayName: user.displayName || null,
+    bio: user.bio || null,
+    avatarUrl: getAvatarUrl(user.avatar),
+    customPrompt: user.customPrompt || null,
+    themeColor: user.themeColor || null,
+  };
+}
+
+// Black or white, whichever reads better on the theme colour
+export function getThemeTextColor(themeColor: string): string {
+  const [r, g, b] = [1, 3, 5].map((i) =>
+    parseInt(themeColor.slice(i, i + 2), 16)
+  );
+  const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+  return luminance > 0.6 ? '#111827' : '#ffffff';
+}
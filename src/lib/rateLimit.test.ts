@@ -0,0 +1,158 @@
+import mongoose from 'mongoose';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import RateLimitModel from '@/model/RateLimit';
+import {
+  createRateLimiter,
+  getClientIp,
+  mongoRateLimitStore,
+  RateLimitStore,
+} from '@/lib/rateLimit';
+
+function createMemoryStore(): RateLimitStore {
+  const counts = new Map<string, number>();
+  return {
+    async increment(key) {
+      const count = (counts.get(key) ?? 0) + 1;
+      counts.set(key, count);
+      return count;
+    },
+  };
+}
+
+function requestWithHeaders(headers: Record<string, string>): Request {
+  return new Request('http://localhost/api/send-message', { headers });
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+});
+
+describe('createRateLimiter', () => {
+  it('allows up to the limit within a window', async () => {
+    const limiter = createRateLimiter({
+      name: 'test',
+      limit: 2,
+      windowMs: 60 * 1000,
+      store: createMemoryStore(),
+      now: () => 10 * 1000,
+    });
+
+    expect((await limiter.consume('a')).allowed).toBe(true);
+    const second = await limiter.consume('a');
+    expect(second).toMatchObject({ allowed: true, remaining: 0 });
+    const third = await limiter.consume('a');
+    expect(third).toEqual({
+      allowed: false,
+      remaining: 0,
+      retryAfterSeconds: 50,
+    });
+  });
+
+  it('starts a new count when the window rolls over', async () => {
+    let currentTime = 59 * 1000;
+    const limiter = createRateLimiter({
+      name: 'test',
+      limit: 1,
+      windowMs: 60 * 1000,
+      store: createMemoryStore(),
+      now: () => currentTime,
+    });
+
+    expect((await limiter.consume('a')).allowed).toBe(true);
+    expect((await limiter.consume('a')).allowed).toBe(false);
+
+    currentTime = 60 * 1000;
+    const next = await limiter.consume('a');
+    expect(next).toEqual({
+      allowed: true,
+      remaining: 0,
+      retryAfterSeconds: 60,
+    });
+  });
+
+  it('keeps separate counts per key and per limiter name', async () => {
+    const store = createMemoryStore();
+    const options = { limit: 1, windowMs: 60 * 1000, store, now: () => 0 };
+    const first = createRateLimiter({ name: 'first', ...options });
+    const second = createRateLimiter({ name: 'second', ...options });
+
+    expect((await first.consume('a')).allowed).toBe(true);
+    expect((await first.consume('b')).allowed).toBe(true);
+    expect((await second.consume('a')).allowed).toBe(true);
+    expect((await first.consume('a')).allowed).toBe(false);
+  });
+});
+
+describe('mongoRateLimitStore', () => {
+  it('retries as an update when a parallel first hit wins the insert', async () => {
+    const duplicateKey = new mongoose.mongo.MongoServerError({
+      message: 'E11000 duplicate key error',
+      code: 11000,
+    });
+    const findOneAndUpdate = vi
+      .spyOn(RateLimitModel, 'findOneAndUpdate')
+      .mockReturnValueOnce({
+        exec: () => Promise.reject(duplicateKey),
+      } as never)
+      .mockReturnValueOnce({
+        exec: () => Promise.resolve({ count: 2 }),
+      } as never);
+
+    await expect(
+      mongoRateLimitStore.increment('key', new Date())
+    ).resolves.toBe(2);
+    expect(findOneAndUpdate).toHaveBeenCalledTimes(2);
+  });
+
+  it('rethrows other errors', async () => {
+    vi.spyOn(RateLimitModel, 'findOneAndUpdate').mockReturnValue({
+      exec: () => Promise.reject(new Error('connection lost')),
+    } as never);
+
+    await expect(
+      mongoRateLimitStore.increment('key', new Date())
+    ).rejects.toThrow('connection lost');
+  });
+});
+
+describe('getClientIp', () => {
+  it('uses the address appended by the proxy, not the client-set ones', () => {
+    const request = requestWithHeaders({
+      'x-forwarded-for': '6.6.6.6, 1.2.3.4',
+    });
+    expect(getClientIp(request)).toBe('1.2.3.4');
+  });
+
+  it('counts TRUSTED_PROXY_HOPS from the right', () => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '2');
+    const request = requestWithHeaders({
+      'x-forwarded-for': '6.6.6.6, 1.2.3.4, 10.0.0.1',
+    });
+    expect(getClientIp(request)).toBe('1.2.3.4');
+  });
+
+  it('uses the leftmost entry when there are fewer hops than proxies', () => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '3');
+    const request = requestWithHeaders({ 'x-forwarded-for': '1.2.3.4' });
+    expect(getClientIp(request)).toBe('1.2.3.4');
+  });
+
+  it.each(['', 'abc', '0', '-2'])(
+    'falls back to one hop for TRUSTED_PROXY_HOPS=%j',
+    (hops) => {
+      vi.stubEnv('TRUSTED_PROXY_HOPS', hops);
+      const request = requestWithHeaders({
+        'x-forwarded-for': '6.6.6.6, 1.2.3.4',
+      });
+      expect(getClientIp(request)).toBe('1.2.3.4');
+    }
+  );
+
+  it('falls back to X-Real-IP without X-Forwarded-For', () => {
+    expect(getClientIp(requestWithHeaders({ 'x-real-ip': '1.2.3.4' }))).toBe(
+      '1.2.3.4'
+    );
+    expect(getClientIp(requestWithHeaders({}))).toBe('unknown');
+  });
+});
@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+import RateLimitModel from '@/model/RateLimit';
+import { isDuplicateKeyError } from '@/lib/mongoErrors';
+
+// Storage for fixed-window counters. The limiter only depends on this
+// interface, so tests can pass an in-memory store and a fake clock.
+export interface RateLimitStore {
+  // Atomically adds one hit to `key` and returns the new count
+  increment(key: string, expiresAt: Date): Promise<number>;
+}
+
+export const mongoRateLimitStore: RateLimitStore = {
+  async increment(key, expiresAt) {
+    const upsert = () =>
+      RateLimitModel.findOneAndUpdate(
+        { key },
+        { $inc: { count: 1 }, $setOnInsert: { expiresAt } },
+        { upsert: true, new: true }
+      ).exec();
+
+    try {
+      return (await upsert())!.count;
+    } catch (error) {
+      // Two first hits can race to insert the same key; the loser retries as an update
+      if (!isDuplicateKeyError(error)) throw error;
+      return (await upsert())!.count;
+    }
+  },
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number; // seconds until the current window resets
+};
+
+export type RateLimiter = {
+  consume(key: string): Promise<RateLimitResult>;
+};
+
+export function createRateLimiter({
+  name,
+  limit,
+  windowMs,
+  store = mongoRateLimitStore,
+  now = Date.now,
+}: {
+  name: string; // namespaces keys so limiters don't share counters
+  limit: number;
+  windowMs: number;
+  store?: RateLimitStore;
+  now?: () => number;
+}): RateLimiter {
+  return {
+    async consume(key) {
+      const currentTime = now();
+      const windowStart = Math.floor(currentTime / windowMs) * windowMs;
+      const windowEnd = windowStart + windowMs;
+
+      const count = await store.increment(
+        `${name}:${key}:${windowStart}`,
+        new Date(windowEnd)
+      );
+
+      return {
+        allowed: count <= limit,
+        remaining: Math.max(limit - count, 0),
+        retryAfterSeconds: Math.ceil((windowEnd - currentTime) / 1000),
+      };
+    },
+  };
+}
+
+// Reverse proxies in front of the app (load balancer, CDN, ...), set with
+// TRUSTED_PROXY_HOPS. Each one appends the address it received the request
+// from to X-Forwarded-For.
+function getTrustedProxyHops(): number {
+  return Math.max(Math.floor(Number(process.env.TRUSTED_PROXY_HOPS)) || 1, 1);
+}
+
+// The client's address as recorded by the first trusted proxy it reached,
+// counted from the right. Entries to the left of it were sent by the client
+// and can be anything, so they're ignored.
+export function getClientIp(request: Request): string {
+  const forwardedFor = request.headers
+    .get('x-forwarded-for')
+    ?.split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  if (forwardedFor?.length) {
+    return forwardedFor[
+      Math.max(forwardedFor.length - getTrustedProxyHops(), 0)
+    ];
+  }
+  return request.headers.get('x-real-ip') || 'unknown';
+}
+
+// Identify senders without storing their IP address: only a salted hash is used as the key
+export function getClientIpHash(request: Request): string {
+  const ip = getClientIp(request);
+
+  return crypto
+    .createHash('sha256')
+    .update(`${process.env.RATE_LIMIT_SALT || process.env.NEXTAUTH_SECRET || ''}:${ip}`)
+    .digest('hex');
+}
@@ -0,0 +1,20 @@
+// The fixed set of reactions a recipient can leave on a message. Stored by
+// key so the emoji shown can change without touching stored messages.
+export const MESSAGE_REACTIONS = [
+  'like',
+  'love',
+  'laugh',
+  'wow',
+  'thanks',
+  'fire',
+] as const;
+export type MessageReaction = (typeof MESSAGE_REACTIONS)[number];
+
+export const MESSAGE_REACTION_EMOJI: Record<MessageReaction, string> = {
+  like: '👍',
+  love: '❤️',
+  laugh: '😂',
+  wow: '😮',
+  thanks: '🙏',
+  fire: '🔥',
+};
@@ -0,0 +1,11 @@
+import crypto from 'crypto';
+
+// The sender's secret for a message thread. Only its hash is stored, so
+// the database alone can't be used to post as (or read as) the sender.
+export function generateReplyToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+export function hashReplyToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
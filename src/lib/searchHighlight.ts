@@ -0,0 +1,44 @@
+// Client-side counterpart of MongoDB's $text search syntax, used to mark
+// matches in MessageCard. Phrases are kept whole; excluded words (-word)
+// are never highlighted.
+export function getSearchTerms(search: string): string[] {
+  const terms: string[] = [];
+  const phrasePattern = /"([^"]+)"/g;
+
+  for (const match of Array.from(search.matchAll(phrasePattern))) {
+    terms.push(match[1].trim());
+  }
+
+  for (const word of search.replace(phrasePattern, ' ').split(/\s+/)) {
+    if (word && !word.startsWith('-')) {
+      terms.push(word);
+    }
+  }
+
+  return terms.filter(Boolean);
+}
+
+export type HighlightSegment = { text: string; isMatch: boolean };
+
+// Splits text into matching and non-matching runs, case-insensitively
+export function splitHighlights(
+  text: string,
+  terms: string[]
+): HighlightSegment[] {
+  if (terms.length === 0) {
+    return [{ text, isMatch: false }];
+  }
+
+  const escaped = [...terms]
+    .sort((a, b) => b.length - a.length) // prefer the longest match
+    .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`(${escaped.join('|')})`, 'gi');
+
+  return text
+    .split(pattern)
+    .filter((part) => part !== '')
+    .map((part) => ({
+      text: part,
+      isMatch: terms.some((term) => term.toLowerCase() === part.toLowerCase()),
+    }));
+}
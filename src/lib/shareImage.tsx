@@ -0,0 +1,122 @@
+import { ImageResponse } from 'next/og';
+import { getShareAvatarDataUri, ShareProfile } from '@/lib/shareProfile';
+import { DEFAULT_THEME_COLOR, getThemeTextColor } from '@/lib/profile';
+
+// Open Graph and Twitter both crop 1.91:1 images well at this size
+export const SHARE_IMAGE_SIZE = { width: 1200, height: 630 };
+export const SHARE_IMAGE_CONTENT_TYPE = 'image/png';
+
+// Long prompts would overflow the card
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+// The invitation card shown when a profile link is pasted into a chat.
+// Satori lays out with flexbox only, so every container sets display: flex.
+export async function renderShareImage(
+  profile: ShareProfile | null
+): Promise<ImageResponse> {
+  const themeColor = profile?.themeColor ?? DEFAULT_THEME_COLOR;
+  const textColor = getThemeTextColor(themeColor);
+  const avatar = await getShareAvatarDataUri(profile?.avatar ?? null);
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'space-between',
+          padding: 64,
+          backgroundColor: themeColor,
+          color: textColor,
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center' }}>
+          {profile &&
+            (avatar ? (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={avatar}
+                alt=""
+                width={120}
+                height={120}
+                style={{
+                  borderRadius: 60,
+                  border: `6px solid ${textColor}`,
+                  objectFit: 'cover',
+                }}
+              />
+            ) : (
+              <div
+                style={{
+                  width: 120,
+                  height: 120,
+                  borderRadius: 60,
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  backgroundColor: textColor,
+                  color: themeColor,
+                  fontSize: 64,
+                }}
+              >
+                {profile.name.replace(/^@/, '').charAt(0).toUpperCase()}
+              </div>
+            ))}
+          <div
+            style={{
+              display: 'flex',
+              flexDirection: 'column',
+              marginLeft: profile ? 32 : 0,
+            }}
+          >
+            <div style={{ display: 'flex', fontSize: 48 }}>
+              {profile ? truncate(profile.name, 40) : 'True Feedback'}
+            </div>
+            {profile && profile.name !== `@${profile.username}` && (
+              <div style={{ display: 'flex', fontSize: 28, opacity: 0.8 }}>
+                {`@${profile.username}`}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div style={{ display: 'flex', fontSize: 64, lineHeight: 1.2 }}>
+          {profile
+            ? truncate(profile.prompt, 110)
+            : 'Real feedback from real people.'}
+        </div>
+
+        <div
+          style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            fontSize: 28,
+          }}
+        >
+          <div style={{ display: 'flex', opacity: 0.8 }}>
+            Anonymous · True Feedback
+          </div>
+          {profile && (
+            <div
+              style={{
+                display: 'flex',
+                backgroundColor: textColor,
+                color: themeColor,
+                borderRadius: 12,
+                padding: '12px 28px',
+              }}
+            >
+              Send a message
+            </div>
+          )}
+        </div>
+      </div>
+    ),
+    SHARE_IMAGE_SIZE
+  );
+}
@@ -0,0 +1,88 @@
+import type { Metadata } from 'next';
+import UserModel from '@/model/User';
+import FeedbackLinkModel from '@/model/FeedbackLink';
+import dbConnect from '@/lib/dbConnect';
+import { readAvatar } from '@/lib/avatarStorage';
+import { DEFAULT_SHARE_PROMPT, DEFAULT_THEME_COLOR } from '@/lib/profile';
+
+// What link previews of /u/[username] (and its named links) show. Server-only:
+// read straight from the database by generateMetadata and the share images.
+export interface ShareProfile {
+  username: string;
+  name: string; // display name, or @username when none is set
+  prompt: string; // link question, custom prompt or the default invitation
+  bio: string | null;
+  themeColor: string;
+  avatar: string | null; // file name under AVATAR_DIR
+}
+
+// null when the user (or the named link) doesn't exist
+export async function findShareProfile(
+  username: string,
+  linkSlug?: string
+): Promise<ShareProfile | null> {
+  await dbConnect();
+  const user = await UserModel.findOne({ username }).lean();
+  if (!user) return null;
+
+  const link = linkSlug
+    ? await FeedbackLinkModel.findOne({ owner: user._id, slug: linkSlug })
+        .select('question')
+        .lean()
+    : null;
+  if (linkSlug && !link) return null;
+
+  return {
+    username: user.username,
+    name: user.displayName || `@${user.username}`,
+    prompt: link?.question || user.customPrompt || DEFAULT_SHARE_PROMPT,
+    bio: user.bio || null,
+    themeColor: user.themeColor || DEFAULT_THEME_COLOR,
+    avatar: user.avatar || null,
+  };
+}
+
+// The avatar inlined as a data URI for the image renderer, which can't fetch
+// our own API routes. WebP isn't supported there, so it is left out.
+export async function getShareAvatarDataUri(
+  avatar: string | null
+): Promise<string | null> {
+  if (!avatar) return null;
+  const file = await readAvatar(avatar);
+  if (!file || file.contentType === 'image/webp') return null;
+  return `data:${file.contentType};base64,${file.data.toString('base64')}`;
+}
+
+// Title and description for link previews; the images come from the
+// opengraph-image and twitter-image files next to the page
+export function toShareMetadata(
+  profile: ShareProfile | null,
+  path: string
+): Metadata {
+  if (!profile) {
+    return { title: 'User not found | True Feedback' };
+  }
+
+  const title = `${profile.name} on True Feedback`;
+  const description = profile.bio
+    ? `${profile.prompt} · ${profile.bio}`
+    : profile.prompt;
+
+  return {
+    title,
+    description,
+    openGraph: {
+      title,
+      description: profile.prompt,
+      url: path,
+      siteName: 'True Feedback',
+      type: 'profile',
+      username: profile.username,
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description: profile.prompt,
+    },
+  };
+}
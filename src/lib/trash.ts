@@ -0,0 +1,13 @@
+// Days a deleted message stays in Trash before MongoDB purges it, e.g. "30".
+// Read when a message is trashed, so a change applies to newly deleted ones.
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export function getTrashRetentionDays(): number {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+// When a message trashed now is removed for good
+export function getTrashPurgeDate(now: Date = new Date()): Date {
+  return new Date(now.getTime() + getTrashRetentionDays() * 24 * 60 * 60 * 1000);
+}
@@ -0,0 +1,7 @@
+// Browser event that tells the Navbar to refetch its unread badge after the
+// dashboard changes read or archived flags
+export const UNREAD_COUNT_CHANGED_EVENT = 'unread-count-changed';
+
+export function notifyUnreadCountChanged() {
+  window.dispatchEvent(new Event(UNREAD_COUNT_CHANGED_EVENT));
+}
@@ -0,0 +1,75 @@
+import { z, ZodError, ZodTypeAny } from 'zod';
+
+type RouteContext = { params?: Record<string, string | string[]> };
+
+type Schemas = {
+  body?: ZodTypeAny;
+  query?: ZodTypeAny;
+  params?: ZodTypeAny;
+};
+
+// Parsed input handed to the wrapped handler; parts without a schema are undefined
+type ValidatedInput<S extends Schemas> = {
+  body: S['body'] extends ZodTypeAny ? z.output<S['body']> : undefined;
+  query: S['query'] extends ZodTypeAny ? z.output<S['query']> : undefined;
+  params: S['params'] extends ZodTypeAny ? z.output<S['params']> : undefined;
+};
+
+// Field-level issues keyed by path, e.g. { content: ['Content must be at least 10 characters.'] }
+function toFieldErrors(error: ZodError, errors: Record<string, string[]>) {
+  for (const issue of error.issues) {
+    const field = issue.path.join('.') || '_';
+    (errors[field] ??= []).push(issue.message);
+  }
+}
+
+function badRequest(message: string, errors?: Record<string, string[]>) {
+  return Response.json(
+    { success: false, message, errors },
+    { status: 400 }
+  );
+}
+
+/**
+ * Wraps a route handler so its body, query string and route params are parsed
+ * against Zod schemas before it runs. Invalid input gets a 400 `ApiResponse`
+ * with `errors` listing the issues per field.
+ */
+export function validatedHandler<S extends Schemas>(
+  schemas: S,
+  handler: (request: Request, input: ValidatedInput<S>) => Promise<Response>
+) {
+  return async (request: Request, context: RouteContext = {}) => {
+    let rawBody: unknown;
+    if (schemas.body) {
+      try {
+        rawBody = await request.json();
+      } catch {
+        return badRequest('Request body must be valid JSON');
+      }
+    }
+
+    const rawQuery = Object.fromEntries(new URL(request.url).searchParams);
+
+    const results = {
+      body: schemas.body?.safeParse(rawBody),
+      query: schemas.query?.safeParse(rawQuery),
+      params: schemas.params?.safeParse(context.params ?? {}),
+    };
+
+    const errors: Record<string, string[]> = {};
+    for (const result of Object.values(results)) {
+      if (result && !result.success) toFieldErrors(result.error, errors);
+    }
+
+    if (Object.keys(errors).length > 0) {
+      return badRequest(Object.values(errors).flat().join(', '), errors);
+    }
+
+    return handler(request, {
+      body: results.body?.success ? results.body.data : undefined,
+      query: results.query?.success ? results.query.data : undefined,
+      params: results.params?.success ? results.params.data : undefined,
+    } as ValidatedInput<S>);
+  };
+}
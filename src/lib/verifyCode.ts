@@ -0,0 +1,5 @@
+// Limits for the sign-up verification code. Shared by the API routes and the
+// /verify page so the countdown shown to the user matches what the server enforces.
+export const VERIFY_CODE_TTL_MS = 60 * 60 * 1000; // 1 hour
+export const VERIFY_CODE_RESEND_COOLDOWN_SECONDS = 60;
+export const MAX_VERIFY_CODE_ATTEMPTS = 5;
@@ -3,7 +3,15 @@ import { getToken } from 'next-auth/jwt';
 export { default } from 'next-auth/middleware';
 
 export const config = {
-  matcher: ['/dashboard/:path*', '/sign-in', '/sign-up', '/', '/verify/:path*'],
+  matcher: [
+    '/dashboard/:path*',
+    '/sign-in',
+    '/sign-up',
+    '/',
+    '/verify/:path*',
+    '/forgot-password',
+    '/reset-password',
+  ],
 };
 
 export async function middleware(request: NextRequest) {
@@ -11,12 +19,14 @@ export async function middleware(request: NextRequest) {
   const url = request.nextUrl;
 
   // Redirect to dashboard if the user is already authenticated
-  // and trying to access sign-in, sign-up, or home page
+  // and trying to access sign-in, sign-up, password reset or home page
   if (
     token &&
     (url.pathname.startsWith('/sign-in') ||
       url.pathname.startsWith('/sign-up') ||
       url.pathname.startsWith('/verify') ||
+      url.pathname.startsWith('/forgot-password') ||
+      url.pathname.startsWith('/reset-password') ||
       url.pathname === '/')
   ) {
     return NextResponse.redirect(new URL('/dashboard', request.url));
@@ -0,0 +1,72 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { MESSAGE_CATEGORIES, MessageCategory } from '@/lib/messageCategories';
+
+// Most named links one user can have next to their main /u/[username] link
+export const MAX_FEEDBACK_LINKS = 20;
+
+// A named link, /u/[username]/[slug], with its own question and settings.
+// Messages sent through it are tagged with its _id.
+export interface FeedbackLink extends Document {
+  owner: Types.ObjectId;
+  slug: string;
+  title: string; // shown to the owner, e.g. "DSA workshop"
+  question: string; // header shown to senders
+  category?: MessageCategory; // preset topic for every message sent here
+  isOpen: boolean;
+  expiresAt?: Date; // closes automatically after this moment
+  createdAt: Date;
+}
+
+const FeedbackLinkSchema: Schema<FeedbackLink> = new mongoose.Schema({
+  owner: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Owner is required'],
+  },
+  slug: {
+    type: String,
+    required: [true, 'Slug is required'],
+    trim: true,
+  },
+  title: {
+    type: String,
+    required: [true, 'Title is required'],
+  },
+  question: {
+    type: String,
+    required: [true, 'Question is required'],
+  },
+  category: {
+    type: String,
+    enum: MESSAGE_CATEGORIES,
+  },
+  isOpen: {
+    type: Boolean,
+    default: true,
+  },
+  expiresAt: {
+    type: Date,
+  },
+  createdAt: {
+    type: Date,
+    required: true,
+    default: Date.now,
+  },
+});
+
+// Slugs only need to be unique per user, since they live under /u/[username]
+FeedbackLinkSchema.index({ owner: 1, slug: 1 }, { unique: true });
+
+// Open links past their expiry no longer take messages
+export function isFeedbackLinkOpen(
+  link: Pick<FeedbackLink, 'isOpen' | 'expiresAt'>,
+  now: Date = new Date()
+): boolean {
+  return link.isOpen && (!link.expiresAt || link.expiresAt > now);
+}
+
+const FeedbackLinkModel =
+  (mongoose.models.FeedbackLink as mongoose.Model<FeedbackLink>) ||
+  mongoose.model<FeedbackLink>('FeedbackLink', FeedbackLinkSchema);
+
+export default FeedbackLinkModel;
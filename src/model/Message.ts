@@ -0,0 +1,251 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import {
+  DEFAULT_MESSAGE_CATEGORY,
+  MESSAGE_CATEGORIES,
+  MessageCategory,
+} from '@/lib/messageCategories';
+import { MESSAGE_REACTIONS, MessageReaction } from '@/lib/reactions';
+
+// 'pending' messages arrived while the recipient required approval; 'held'
+// messages were flagged by moderation. Both wait for the recipient's review.
+export const MESSAGE_STATUSES = ['accepted', 'pending', 'held'] as const;
+export type MessageStatus = (typeof MESSAGE_STATUSES)[number];
+
+// Dashboard tabs: the inbox, starred and archived messages, everything
+// waiting for review, and deleted messages that can still be restored
+export const MESSAGE_VIEWS = [
+  'accepted',
+  'starred',
+  'archived',
+  'pending',
+  'trash',
+] as const;
+export type MessageView = (typeof MESSAGE_VIEWS)[number];
+
+// Follow-up conversation on a message. The anonymous sender takes part
+// through their reply token, so no account is ever linked to them.
+export const REPLY_AUTHORS = ['recipient', 'sender'] as const;
+export type ReplyAuthor = (typeof REPLY_AUTHORS)[number];
+export const MAX_THREAD_REPLIES = 100;
+
+// Size of the public answered-questions wall on /u/[username]
+export const MAX_PUBLISHED_MESSAGES = 50;
+
+export interface Reply {
+  _id: string;
+  author: ReplyAuthor;
+  content: string;
+  createdAt: Date;
+  // Sender replies go through moderation; flagged ones are shown blurred
+  flagged?: boolean;
+  flagReasons?: string[];
+}
+
+const ReplySchema: Schema<Reply> = new mongoose.Schema({
+  author: {
+    type: String,
+    enum: REPLY_AUTHORS,
+    required: true,
+  },
+  content: {
+    type: String,
+    required: true,
+  },
+  createdAt: {
+    type: Date,
+    required: true,
+    default: Date.now,
+  },
+  flagged: {
+    type: Boolean,
+    default: false,
+  },
+  flagReasons: {
+    type: [String],
+    default: [],
+  },
+});
+
+export interface Message extends Document {
+  recipient: Types.ObjectId;
+  content: string;
+  createdAt: Date;
+  category: MessageCategory;
+  link?: Types.ObjectId; // the named feedback link it was sent through
+  status: MessageStatus;
+  flagged: boolean; // set by the moderation pipeline
+  flagReasons: string[];
+  isRead: boolean;
+  isStarred: boolean;
+  isArchived: boolean; // hidden from the inbox, shown under Archive
+  deletedAt?: Date; // set while the message is in Trash
+  purgeAt?: Date; // when a trashed message is removed for good
+  replyTokenHash?: string; // sha256 of the token handed to the sender
+  replies: Reply[];
+  reaction?: MessageReaction; // the recipient's reaction, shown to the sender
+  answer?: string; // the recipient's public answer
+  isPublished: boolean; // shown with its answer on /u/[username]
+  publishedOrder?: number; // position on the wall, lowest first
+  publishedAt?: Date;
+}
+
+// Messages live in their own collection so a busy board never grows the
+// User document towards the 16MB limit
+const MessageSchema: Schema<Message> = new mongoose.Schema({
+  recipient: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Recipient is required'],
+  },
+  content: {
+    type: String,
+    required: true,
+  },
+  createdAt: {
+    type: Date,
+    required: true,
+    default: Date.now,
+  },
+  category: {
+    type: String,
+    enum: MESSAGE_CATEGORIES,
+    default: DEFAULT_MESSAGE_CATEGORY,
+  },
+  link: {
+    type: Schema.Types.ObjectId,
+    ref: 'FeedbackLink',
+  },
+  status: {
+    type: String,
+    enum: MESSAGE_STATUSES,
+    default: 'accepted',
+  },
+  flagged: {
+    type: Boolean,
+    default: false,
+  },
+  flagReasons: {
+    type: [String],
+    default: [],
+  },
+  isRead: {
+    type: Boolean,
+    default: false,
+  },
+  isStarred: {
+    type: Boolean,
+    default: false,
+  },
+  isArchived: {
+    type: Boolean,
+    default: false,
+  },
+  deletedAt: {
+    type: Date,
+  },
+  purgeAt: {
+    type: Date,
+  },
+  replyTokenHash: {
+    type: String,
+    select: false, // never sent to the dashboard
+  },
+  // Threads are short and capped at MAX_THREAD_REPLIES, so embedding is fine here
+  replies: {
+    type: [ReplySchema],
+    default: [],
+  },
+  reaction: {
+    type: String,
+    enum: MESSAGE_REACTIONS,
+  },
+  answer: {
+    type: String,
+  },
+  isPublished: {
+    type: Boolean,
+    default: false,
+  },
+  publishedOrder: {
+    type: Number,
+  },
+  publishedAt: {
+    type: Date,
+  },
+});
+
+// Serves the dashboard query: one recipient's messages with a given status,
+// newest first, with _id as the tie-breaker used by the pagination cursor
+MessageSchema.index({ recipient: 1, status: 1, createdAt: -1, _id: -1 });
+
+// Same query narrowed to one category (dashboard filter chips)
+MessageSchema.index({
+  recipient: 1,
+  status: 1,
+  category: 1,
+  createdAt: -1,
+  _id: -1,
+});
+
+// Dashboard filter by feedback link; main-link messages have no `link`
+MessageSchema.index(
+  { recipient: 1, link: 1, createdAt: -1, _id: -1 },
+  { partialFilterExpression: { link: { $exists: true } } }
+);
+
+// Full-text search over one recipient's messages. Queries must match
+// `recipient` exactly to use it. No language is set because many messages
+// are Hinglish, which English stemming and stop words would mangle.
+MessageSchema.index(
+  { recipient: 1, content: 'text' },
+  { default_language: 'none' }
+);
+
+// Serves the public wall: one recipient's published messages in wall order
+MessageSchema.index(
+  { recipient: 1, publishedOrder: 1 },
+  { partialFilterExpression: { isPublished: true } }
+);
+
+// MongoDB's TTL monitor removes trashed messages once `purgeAt` has passed.
+// Restoring a message unsets `purgeAt`, which takes it out of the purge.
+MessageSchema.index({ purgeAt: 1 }, { expireAfterSeconds: 0 });
+
+// Looks up a thread by the sender's token
+MessageSchema.index({ replyTokenHash: 1 }, { unique: true, sparse: true });
+
+// Messages stored before `status` existed have no such field; they count as accepted
+export function messageStatusFilter(view: MessageView) {
+  return view === 'pending'
+    ? { $in: ['pending', 'held'] }
+    : { $in: ['accepted', null] };
+}
+
+// Conditions for one dashboard tab. Flags are matched with $ne so messages
+// stored before the flags existed count as unread, unstarred and not archived.
+// Only the Trash tab shows deleted messages, whatever their status.
+export function messageViewFilter(view: MessageView) {
+  if (view === 'trash') return { deletedAt: { $ne: null } };
+
+  const filter: Record<string, unknown> = {
+    status: messageStatusFilter(view),
+    deletedAt: null,
+  };
+  if (view === 'accepted') filter.isArchived = { $ne: true };
+  if (view === 'starred') filter.isStarred = true;
+  if (view === 'archived') filter.isArchived = true;
+  return filter;
+}
+
+// Messages stored before `category` existed count as the default category
+export function messageCategoryFilter(category: MessageCategory) {
+  return category === DEFAULT_MESSAGE_CATEGORY
+    ? { $in: [DEFAULT_MESSAGE_CATEGORY, null] }
+    : category;
+}
+
+const MessageModel =
+  (mongoose.models.Message as mongoose.Model<Message>) ||
+  mongoose.model<Message>('Message', MessageSchema);
+
+export default MessageModel;
@@ -0,0 +1,34 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// One counter per (key, fixed window). MongoDB's TTL monitor removes
+// counters once their window has passed, so the collection stays small.
+export interface RateLimit extends Document {
+  key: string;
+  count: number;
+  expiresAt: Date;
+}
+
+const RateLimitSchema: Schema<RateLimit> = new mongoose.Schema({
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  count: {
+    type: Number,
+    required: true,
+    default: 0,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+});
+
+RateLimitSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const RateLimitModel =
+  (mongoose.models.RateLimit as mongoose.Model<RateLimit>) ||
+  mongoose.model<RateLimit>('RateLimit', RateLimitSchema);
+
+export default RateLimitModel;
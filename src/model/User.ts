@@ -1,21 +1,10 @@
 import mongoose, { Schema, Document } from 'mongoose';
-
-export interface Message extends Document {
-  content: string;
-  createdAt: Date;
-}
-
-const MessageSchema: Schema<Message> = new mongoose.Schema({
-  content: {
-    type: String,
-    required: true,
-  },
-  createdAt: {
-    type: Date,
-    required: true,
-    default: Date.now,
-  },
-});
+import {
+  FLAGGED_MESSAGE_ACTIONS,
+  FlaggedMessageAction,
+} from '@/lib/moderation/types';
+import { MESSAGE_CATEGORIES, MessageCategory } from '@/lib/messageCategories';
+import { WeeklyWindow } from '@/lib/acceptSchedule';
 
 export interface User extends Document {
   username: string;
@@ -23,11 +12,42 @@ export interface User extends Document {
   password: string;
   verifyCode: string;
   verifyCodeExpiry: Date; 
+  verifyCodeSentAt?: Date; // used for the resend cooldown
+  verifyCodeAttempts: number; // wrong guesses against the current code
   isVerified: boolean;
   isAcceptingMessages: boolean;
-  messages: Message[];
+  isCampusVerified: boolean; // verified account on an institute email domain
+  onlyVerifiedSenders: boolean; // accept messages only from campus-verified users
+  requireApproval: boolean; // new messages wait in "Pending" until approved
+  flaggedMessageAction: FlaggedMessageAction; // what moderation does with flagged messages
+  acceptedCategories: MessageCategory[]; // topics senders may pick on /u/[username]
+  // When messages are taken while isAcceptingMessages is on
+  acceptSchedule?: {
+    opensAt?: Date;
+    closesAt?: Date;
+    weeklyWindows: WeeklyWindow[]; // IST wall-clock times
+  };
+  // Shown on /u/[username]
+  displayName?: string;
+  bio?: string;
+  avatar?: string; // file name under AVATAR_DIR
+  customPrompt?: string; // replaces the default heading
+  themeColor?: string; // hex, e.g. "#1d4ed8"
+  resetPasswordCode?: string; // sha256 hash of the emailed code, cleared once used
+  resetPasswordExpiry?: Date;
+  resetCodeSentAt?: Date; // used for the forgot-password cooldown
+  resetPasswordAttempts: number; // guesses against the current reset code
 }
 
+const WeeklyWindowSchema: Schema<WeeklyWindow> = new mongoose.Schema(
+  {
+    day: { type: Number, required: true, min: 0, max: 6 },
+    start: { type: String, required: true },
+    end: { type: String, required: true },
+  },
+  { _id: false }
+);
+
 // Updated User schema
 const UserSchema: Schema<User> = new mongoose.Schema({
   username: {
@@ -54,6 +74,13 @@ const UserSchema: Schema<User> = new mongoose.Schema({
     type: Date,
     required: [true, 'Verify Code Expiry is required'],
   },
+  verifyCodeSentAt: {
+    type: Date,
+  },
+  verifyCodeAttempts: {
+    type: Number,
+    default: 0,
+  },
   isVerified: {
     type: Boolean,
     default: false,
@@ -62,7 +89,63 @@ const UserSchema: Schema<User> = new mongoose.Schema({
     type: Boolean,
     default: true,
   },
-  messages: [MessageSchema],
+  isCampusVerified: {
+    type: Boolean,
+    default: false,
+  },
+  onlyVerifiedSenders: {
+    type: Boolean,
+    default: false,
+  },
+  requireApproval: {
+    type: Boolean,
+    default: false,
+  },
+  flaggedMessageAction: {
+    type: String,
+    enum: FLAGGED_MESSAGE_ACTIONS,
+    default: 'blur',
+  },
+  acceptedCategories: {
+    type: [{ type: String, enum: MESSAGE_CATEGORIES }],
+    default: () => [...MESSAGE_CATEGORIES],
+  },
+  acceptSchedule: {
+    opensAt: { type: Date },
+    closesAt: { type: Date },
+    weeklyWindows: { type: [WeeklyWindowSchema], default: [] },
+  },
+  displayName: {
+    type: String,
+    trim: true,
+  },
+  bio: {
+    type: String,
+    trim: true,
+  },
+  avatar: {
+    type: String,
+  },
+  customPrompt: {
+    type: String,
+    trim: true,
+  },
+  themeColor: {
+    type: String,
+  },
+  resetPasswordCode: {
+    type: String,
+  },
+  resetPasswordExpiry: {
+    type: Date,
+  },
+  resetCodeSentAt: {
+    type: Date,
+  },
+  resetPasswordAttempts: {
+    type: Number,
+    default: 0,
+  },
 });
 
 const UserModel =
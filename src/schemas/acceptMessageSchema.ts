@@ -1,5 +1,17 @@
 import { z } from 'zod'
+import { FLAGGED_MESSAGE_ACTIONS } from '@/lib/moderation/types';
+import { MESSAGE_CATEGORIES } from '@/lib/messageCategories';
+import { acceptScheduleSchema } from '@/schemas/acceptScheduleSchema';
 
+// All settings are optional so the dashboard can update one control at a time
 export const AcceptMessageSchema = z.object({
-  acceptMessages: z.boolean(),
-});
\ No newline at end of file
+  acceptMessages: z.boolean().optional(),
+  onlyVerifiedSenders: z.boolean().optional(),
+  requireApproval: z.boolean().optional(),
+  flaggedMessageAction: z.enum(FLAGGED_MESSAGE_ACTIONS).optional(),
+  acceptedCategories: z
+    .array(z.enum(MESSAGE_CATEGORIES))
+    .min(1, 'Accept at least one category')
+    .optional(),
+  acceptSchedule: acceptScheduleSchema.optional(),
+});
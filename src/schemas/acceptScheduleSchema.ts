@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { MAX_WEEKLY_WINDOWS, parseScheduleTime } from '@/lib/acceptSchedule';
+
+const scheduleTime = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$|^24:00$/, 'Use HH:mm, e.g. 18:30');
+
+// One recurring window, e.g. every Friday 18:00–23:00 IST
+export const weeklyWindowSchema = z
+  .object({
+    day: z.number().int().min(0).max(6),
+    start: scheduleTime,
+    end: scheduleTime,
+  })
+  .refine(
+    (window) => parseScheduleTime(window.start) < parseScheduleTime(window.end),
+    { message: 'A window must end after it starts', path: ['end'] }
+  );
+
+// Replaces the whole schedule; null dates and an empty list clear the rules
+export const acceptScheduleSchema = z
+  .object({
+    opensAt: z.coerce.date().nullable(),
+    closesAt: z.coerce.date().nullable(),
+    weeklyWindows: z
+      .array(weeklyWindowSchema)
+      .max(MAX_WEEKLY_WINDOWS, `Add at most ${MAX_WEEKLY_WINDOWS} windows`),
+  })
+  .refine(
+    (schedule) =>
+      !schedule.opensAt ||
+      !schedule.closesAt ||
+      schedule.opensAt < schedule.closesAt,
+    { message: 'The board must close after it opens', path: ['closesAt'] }
+  );
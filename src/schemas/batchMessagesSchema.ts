@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import { objectIdValidation } from '@/schemas/objectIdSchema';
+import { messageFilterSchema } from '@/schemas/messageQuerySchema';
+
+export const BATCH_MESSAGE_ACTIONS = ['delete', 'archive', 'markRead'] as const;
+export type BatchMessageAction = (typeof BATCH_MESSAGE_ACTIONS)[number];
+
+// Most messages one batch request touches; a larger filter selection is
+// processed newest first and reports `hasMore`
+export const MAX_BATCH_MESSAGES = 500;
+
+// Body of POST /api/batch-messages: an action applied either to the listed
+// messages or to every message matching a dashboard filter
+export const batchMessagesSchema = z
+  .object({
+    action: z.enum(BATCH_MESSAGE_ACTIONS),
+    messageIds: z
+      .array(objectIdValidation)
+      .min(1, 'Select at least one message')
+      .max(
+        MAX_BATCH_MESSAGES,
+        `At most ${MAX_BATCH_MESSAGES} messages can be updated at once`
+      )
+      .optional(),
+    filter: messageFilterSchema.optional(),
+  })
+  .refine((body) => (body.messageIds === undefined) !== (body.filter === undefined), {
+    message: 'Send either messageIds or filter',
+  });
@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { objectIdValidation } from '@/schemas/objectIdSchema';
+import { MESSAGE_CATEGORIES } from '@/lib/messageCategories';
+
+// Routes next to /u/[username]/[slug] that a link with the same slug could
+// never reach
+const RESERVED_LINK_SLUGS = ['opengraph-image', 'twitter-image'];
+
+// The last part of /u/[username]/[slug], e.g. "dsa-workshop"
+export const linkSlugValidation = z
+  .string()
+  .min(2, 'Slug must be at least 2 characters')
+  .max(40, 'Slug must be no more than 40 characters')
+  .regex(
+    /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+    'Use lowercase letters, numbers and single hyphens'
+  )
+  .refine((slug) => !RESERVED_LINK_SLUGS.includes(slug), {
+    message: 'This slug is reserved. Please choose another one.',
+  });
+
+const feedbackLinkFields = z.object({
+  slug: linkSlugValidation,
+  title: z
+    .string()
+    .trim()
+    .min(1, 'Title is required')
+    .max(60, 'Title must be no more than 60 characters'),
+  question: z
+    .string()
+    .trim()
+    .min(1, 'Question is required')
+    .max(200, 'Question must be no more than 200 characters'),
+  // null clears a setting on update
+  category: z.enum(MESSAGE_CATEGORIES).nullable(),
+  isOpen: z.boolean(),
+  expiresAt: z.coerce.date().nullable(),
+});
+
+// Body of POST /api/feedback-links
+export const createFeedbackLinkSchema = feedbackLinkFields.extend({
+  category: feedbackLinkFields.shape.category.optional(),
+  isOpen: feedbackLinkFields.shape.isOpen.default(true),
+  expiresAt: feedbackLinkFields.shape.expiresAt.optional(),
+});
+
+// Body of PATCH /api/feedback-links/[linkid]: only the fields sent change
+export const updateFeedbackLinkSchema = feedbackLinkFields.partial();
+
+// Route params of /api/feedback-links/[linkid]
+export const feedbackLinkParamsSchema = z.object({
+  linkid: objectIdValidation,
+});
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { objectIdValidation } from '@/schemas/objectIdSchema';
+
+export const MAX_BULK_MESSAGE_IDS = 100;
+
+const messageFlags = z.object({
+  isRead: z.boolean().optional(),
+  isStarred: z.boolean().optional(),
+  isArchived: z.boolean().optional(),
+});
+
+const hasAnyFlag = (flags: z.infer<typeof messageFlags>) =>
+  flags.isRead !== undefined ||
+  flags.isStarred !== undefined ||
+  flags.isArchived !== undefined;
+
+// Body of POST /api/mark-message/[messageid]: only the flags sent are changed
+export const messageFlagsSchema = messageFlags.refine(hasAnyFlag, {
+  message: 'Set at least one of isRead, isStarred or isArchived',
+});
+
+// Body of POST /api/mark-messages: the same flags applied to many messages
+export const bulkMessageFlagsSchema = messageFlags
+  .extend({
+    messageIds: z
+      .array(objectIdValidation)
+      .min(1, 'Select at least one message')
+      .max(
+        MAX_BULK_MESSAGE_IDS,
+        `At most ${MAX_BULK_MESSAGE_IDS} messages can be updated at once`
+      ),
+  })
+  .refine(hasAnyFlag, {
+    message: 'Set at least one of isRead, isStarred or isArchived',
+  });
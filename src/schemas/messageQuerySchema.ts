@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { MESSAGE_VIEWS } from '@/model/Message';
+import { MESSAGE_CATEGORIES } from '@/lib/messageCategories';
+import { EXPORT_FORMATS } from '@/lib/messageExport';
+import { objectIdValidation } from '@/schemas/objectIdSchema';
+
+export const MESSAGES_PAGE_SIZE = 20;
+export const MAX_MESSAGES_PAGE_SIZE = 100;
+
+export const messageQuerySchema = z.object({
+  status: z.enum(MESSAGE_VIEWS).default('accepted'),
+  category: z.enum(MESSAGE_CATEGORIES).optional(),
+  link: objectIdValidation.optional(), // a feedback link id
+  cursor: z.string().optional(),
+  limit: z.coerce
+    .number()
+    .int('Limit must be a whole number')
+    .min(1, 'Limit must be at least 1')
+    .max(MAX_MESSAGES_PAGE_SIZE, `Limit must be at most ${MAX_MESSAGES_PAGE_SIZE}`)
+    .default(MESSAGES_PAGE_SIZE),
+  before: z.coerce.date().optional(),
+  after: z.coerce.date().optional(),
+});
+
+// GET /api/search-messages takes the same filters plus the search text
+export const searchMessagesQuerySchema = messageQuerySchema.extend({
+  q: z
+    .string()
+    .trim()
+    .min(1, 'Search text is required')
+    .max(200, 'Search text must be at most 200 characters'),
+});
+
+// The dashboard filters without pagination, e.g. "every message matching
+// the current filter" in a batch action. `q` is optional here.
+export const messageFilterSchema = searchMessagesQuerySchema
+  .omit({ cursor: true, limit: true })
+  .partial({ q: true });
+
+// Query of GET /api/export-messages
+export const exportMessagesQuerySchema = messageFilterSchema.extend({
+  format: z.enum(EXPORT_FORMATS).default('csv'),
+});
@@ -1,8 +1,47 @@
 import { z } from 'zod'
+import { usernameValidation } from '@/schemas/signUpSchema';
+import { objectIdValidation } from '@/schemas/objectIdSchema';
+import {
+  DEFAULT_MESSAGE_CATEGORY,
+  MESSAGE_CATEGORIES,
+} from '@/lib/messageCategories';
+import { MESSAGE_REACTIONS } from '@/lib/reactions';
+import { linkSlugValidation } from '@/schemas/feedbackLinkSchema';
 
 export const messageSchema = z.object({
   content: z
     .string()
     .min(10, { message: 'Content must be at least 10 characters.' })
     .max(300, { message: 'Content must not be longer than 300 characters.' }),
+  category: z.enum(MESSAGE_CATEGORIES).default(DEFAULT_MESSAGE_CATEGORY),
+});
+
+// Body of POST /api/send-message
+export const sendMessageSchema = messageSchema.extend({
+  username: usernameValidation,
+  linkSlug: linkSlugValidation.optional(), // sent from /u/[username]/[slug]
+});
+
+// Route params of /api/delete-message/[messageid]
+export const messageIdParamsSchema = z.object({
+  messageid: objectIdValidation,
+});
+
+// Body of a reply in a message thread, from either side
+export const replySchema = z.object({
+  content: z
+    .string()
+    .trim()
+    .min(1, { message: 'Reply cannot be empty.' })
+    .max(300, { message: 'Reply must not be longer than 300 characters.' }),
+});
+
+// Route params of /api/thread/[token]: 32 random bytes, base64url encoded
+export const threadTokenParamsSchema = z.object({
+  token: z.string().regex(/^[A-Za-z0-9_-]{43}$/, 'Invalid reply token'),
+});
+
+// Body of POST /api/react-message/[messageid]; null removes the reaction
+export const reactionSchema = z.object({
+  reaction: z.enum(MESSAGE_REACTIONS).nullable(),
 });
@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { MESSAGE_VIEWS } from '@/model/Message';
+
+// Query of GET /api/message-stats
+export const messageStatsQuerySchema = z.object({
+  status: z.enum(MESSAGE_VIEWS).default('accepted'),
+});
@@ -0,0 +1,6 @@
+import { z } from 'zod';
+
+// 24-character hex string, the format of a MongoDB ObjectId
+export const objectIdValidation = z
+  .string()
+  .regex(/^[a-f0-9]{24}$/i, 'Invalid id');
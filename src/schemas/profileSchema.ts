@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import {
+  MAX_BIO_LENGTH,
+  MAX_CUSTOM_PROMPT_LENGTH,
+  MAX_DISPLAY_NAME_LENGTH,
+  THEME_COLOR_PATTERN,
+} from '@/lib/profile';
+
+// Body of PATCH /api/profile: only the fields sent change, null clears one
+export const updateProfileSchema = z.object({
+  displayName: z
+    .string()
+    .trim()
+    .max(
+      MAX_DISPLAY_NAME_LENGTH,
+      `Display name must be no more than ${MAX_DISPLAY_NAME_LENGTH} characters`
+    )
+    .nullable()
+    .optional(),
+  bio: z
+    .string()
+    .trim()
+    .max(MAX_BIO_LENGTH, `Bio must be no more than ${MAX_BIO_LENGTH} characters`)
+    .nullable()
+    .optional(),
+  customPrompt: z
+    .string()
+    .trim()
+    .max(
+      MAX_CUSTOM_PROMPT_LENGTH,
+      `Prompt must be no more than ${MAX_CUSTOM_PROMPT_LENGTH} characters`
+    )
+    .nullable()
+    .optional(),
+  themeColor: z
+    .string()
+    .regex(THEME_COLOR_PATTERN, 'Use a hex colour like #1d4ed8')
+    .nullable()
+    .optional(),
+});
@@ -0,0 +1,7 @@
+import { usernameSchema } from '@/schemas/signUpSchema';
+import { linkSlugValidation } from '@/schemas/feedbackLinkSchema';
+
+// Query of GET /api/public-profile; `link` is the slug of a named link
+export const publicProfileQuerySchema = usernameSchema.extend({
+  link: linkSlugValidation.optional(),
+});
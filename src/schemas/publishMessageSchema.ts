@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { MAX_PUBLISHED_MESSAGES } from '@/model/Message';
+import { objectIdValidation } from '@/schemas/objectIdSchema';
+
+// Body of POST /api/publish-message/[messageid]
+export const publishMessageSchema = z.object({
+  answer: z
+    .string()
+    .trim()
+    .min(1, { message: 'Answer cannot be empty.' })
+    .max(1000, { message: 'Answer must not be longer than 1000 characters.' }),
+});
+
+// Body of PUT /api/reorder-published: the full wall, top to bottom
+export const reorderPublishedSchema = z.object({
+  messageIds: z
+    .array(objectIdValidation)
+    .min(1, { message: 'Nothing to reorder.' })
+    .max(MAX_PUBLISHED_MESSAGES)
+    .refine((ids) => new Set(ids).size === ids.length, {
+      message: 'Message ids must be unique.',
+    }),
+});
@@ -1,4 +1,8 @@
 import { z } from 'zod';
+import {
+  getAllowedEmailDomains,
+  isAllowedSignUpEmail,
+} from '@/lib/emailDomains';
 
 export const usernameValidation = z
   .string()
@@ -6,10 +10,22 @@ export const usernameValidation = z
   .max(20, 'Username must be no more than 20 characters')
   .regex(/^[a-zA-Z0-9_]+$/, 'Username must not contain special characters');
 
+// Just a username, e.g. the check-username-unique query or resend-code body
+export const usernameSchema = z.object({
+  username: usernameValidation,
+});
+
 export const signUpSchema = z.object({
   username: usernameValidation,
 
-  email: z.string().email({ message: 'Invalid email address' }),
+  email: z
+    .string()
+    .email({ message: 'Invalid email address' })
+    .refine(isAllowedSignUpEmail, {
+      message: `Please use your institute email (${getAllowedEmailDomains()
+        .map((domain) => `@${domain}`)
+        .join(', ')})`,
+    }),
   password: z
     .string()
     .min(6, { message: 'Password must be at least 6 characters' }),
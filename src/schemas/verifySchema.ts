@@ -1,5 +1,11 @@
 import { z } from 'zod';
+import { usernameValidation } from '@/schemas/signUpSchema';
 
 export const verifySchema = z.object({
   code: z.string().length(6, 'Verification code must be 6 digits'),
 });
+
+// Body of POST /api/verify-code
+export const verifyCodeSchema = verifySchema.extend({
+  username: usernameValidation,
+});
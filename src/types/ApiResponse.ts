@@ -1,8 +1,76 @@
-import { Message } from "@/model/User";
+import { Message, Reply } from "@/model/Message";
+import { FlaggedMessageAction } from "@/lib/moderation/types";
+import { MessageCategory } from "@/lib/messageCategories";
+import { MessageReaction } from "@/lib/reactions";
+import { FeedbackLink } from "@/model/FeedbackLink";
+import { AcceptSchedule } from "@/lib/acceptSchedule";
+import { ProfileSettings } from "@/lib/profile";
 
 export interface ApiResponse {
   success: boolean;
   message: string;
   isAcceptingMessages?: boolean;
+  onlyVerifiedSenders?: boolean;
+  requireApproval?: boolean;
+  isCampusVerified?: boolean;
+  flaggedMessageAction?: FlaggedMessageAction;
+  acceptedCategories?: Array<MessageCategory>;
+  acceptSchedule?: AcceptSchedule;
   messages?: Array<Message>
+  nextCursor?: string | null; // null when there are no more pages
+  retryAfterSeconds?: number; // set on cooldown / rate-limit responses
+  errors?: Record<string, string[]>; // field-level validation issues on 400 responses
+  replyToken?: string; // returned once to the sender of a new message
+  reply?: Reply;
+  thread?: MessageThread;
+  publishedMessages?: Array<PublishedMessage>;
+  profile?: PublicProfile;
+  profileSettings?: ProfileSettings; // the signed-in user's own profile fields
+  categoryCounts?: Partial<Record<MessageCategory, number>>;
+  reactionCounts?: Partial<Record<MessageReaction, number>>;
+  unreadCount?: number;
+  results?: Array<BatchItemResult>; // per-message outcome of a batch action
+  hasMore?: boolean; // a batch filter matched more messages than were processed
+  feedbackLinks?: Array<FeedbackLink & { messageCount: number }>;
+  feedbackLink?: FeedbackLink;
 };
+
+export interface BatchItemResult {
+  messageId: string;
+  success: boolean;
+  message?: string; // why the action failed for this message
+}
+
+// What /u/[username] needs to know about the recipient before sending
+export interface PublicProfile extends ProfileSettings {
+  username: string;
+  acceptedCategories: Array<MessageCategory>;
+  isAcceptingMessages: boolean; // the switch and the schedule together
+  nextScheduleChangeAt: string | null; // when the schedule opens or closes the board
+  link?: PublicFeedbackLink; // when a named link was requested
+}
+
+export interface PublicFeedbackLink {
+  slug: string;
+  question: string;
+  category: MessageCategory | null; // preset topic, fixed for senders
+  isOpen: boolean; // false once closed or expired
+}
+
+// What the anonymous sender sees at /thread/[token]
+export interface MessageThread {
+  recipientUsername: string;
+  content: string;
+  createdAt: Date;
+  replies: Array<Reply>;
+  reaction: MessageReaction | null; // the recipient's reaction, if any
+}
+
+// One question and answer on the public wall of /u/[username]
+export interface PublishedMessage {
+  _id: string;
+  content: string;
+  answer: string;
+  createdAt: Date;
+  publishedAt: Date;
+}
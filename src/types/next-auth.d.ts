@@ -6,6 +6,7 @@ declare module 'next-auth' {
       _id?: string;
       isVerified?: boolean;
       isAcceptingMessages?: boolean;
+      isCampusVerified?: boolean;
       username?: string;
     } & DefaultSession['user'];
   }
@@ -14,6 +15,7 @@ declare module 'next-auth' {
     _id?: string;
     isVerified?: boolean;
     isAcceptingMessages?: boolean;
+    isCampusVerified?: boolean;
     username?: string;
   }
 }
@@ -23,6 +25,7 @@ declare module 'next-auth/jwt' {
     _id?: string;
     isVerified?: boolean;
     isAcceptingMessages?: boolean;
+    isCampusVerified?: boolean;
     username?: string;
   }
 }